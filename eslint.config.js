@@ -0,0 +1,13 @@
+const { defineConfig } = require("eslint/config");
+const universeWebConfig = require("eslint-config-universe/flat/web");
+const baseConfig = require("expo-module-scripts/eslint.config.base");
+
+module.exports = defineConfig([
+	{ ignores: ["build", "example"] },
+	baseConfig,
+	universeWebConfig,
+	{
+		// Sources are formatted with tabs and double quotes, not Prettier's defaults
+		rules: { "prettier/prettier": "off" },
+	},
+]);
@@ -178,6 +178,80 @@ enum TextAvailability {
 #endif
     return false
   }
+
+  static func current() -> TextModelAvailabilityResult {
+#if canImport(FoundationModels)
+    if #available(iOS 26.0, *) {
+      let model = SystemLanguageModel.default
+      switch model.availability {
+      case .available:
+        return TextModelAvailabilityResult(status: "available")
+      case .unavailable(let reason):
+        let code: String = {
+          switch reason {
+          case .deviceNotEligible:
+            return "deviceNotEligible"
+          case .appleIntelligenceNotEnabled:
+            return "appleIntelligenceNotEnabled"
+          case .modelNotReady:
+            return "modelNotReady"
+          default:
+            return "unknown"
+          }
+        }()
+        return TextModelAvailabilityResult(status: "unavailable", reasonCode: code)
+      }
+    }
+#endif
+    return TextModelAvailabilityResult(status: "unavailable", reasonCode: "unsupported")
+  }
+}
+
+// Tracks in-flight native work by the JS-provided request id so it can be cancelled
+actor RequestRegistry {
+  private var cancellers: [String: () -> Void] = [:]
+  // Cancels that arrived before their request registered, most recent last.
+  // Bounded because cancels for requests that already finished land here too.
+  private var earlyCancels: [String] = []
+  private let maxEarlyCancels = 64
+
+  func register(_ requestId: String, cancel: @escaping () -> Void) {
+    if let index = earlyCancels.firstIndex(of: requestId) {
+      earlyCancels.remove(at: index)
+      cancel()
+      return
+    }
+    cancellers[requestId] = cancel
+  }
+
+  func remove(_ requestId: String) {
+    cancellers[requestId] = nil
+  }
+
+  func cancel(_ requestId: String) {
+    if let cancel = cancellers.removeValue(forKey: requestId) {
+      cancel()
+      return
+    }
+    earlyCancels.append(requestId)
+    if earlyCancels.count > maxEarlyCancels {
+      earlyCancels.removeFirst()
+    }
+  }
+
+  nonisolated func run<T>(_ requestId: String?, _ operation: @escaping () async throws -> T) async throws -> T {
+    guard let requestId, !requestId.isEmpty else {
+      return try await operation()
+    }
+    let task = Task { try await operation() }
+    await register(requestId) { task.cancel() }
+    defer { Task { await self.remove(requestId) } }
+    return try await withTaskCancellationHandler {
+      try await task.value
+    } onCancel: {
+      task.cancel()
+    }
+  }
 }
 
 struct TextGenerationOptions: Record {
@@ -186,6 +260,7 @@ struct TextGenerationOptions: Record {
   @Field public var temperature: Double?
   @Field("maxOutputTokens") public var maxOutputTokens: Int?
   @Field public var sessionId: String?
+  @Field public var requestId: String?
 
   // Required by ExpoModulesCore.Record for decoding
   public init() {
@@ -194,6 +269,7 @@ struct TextGenerationOptions: Record {
     self._temperature = Field(wrappedValue: nil)
     self._maxOutputTokens = Field(wrappedValue: nil)
     self._sessionId = Field(wrappedValue: nil)
+    self._requestId = Field(wrappedValue: nil)
   }
 
   // Convenience initializer used internally
@@ -203,6 +279,7 @@ struct TextGenerationOptions: Record {
     self._temperature = Field(wrappedValue: temperature)
     self._maxOutputTokens = Field(wrappedValue: maxOutputTokens)
     self._sessionId = Field(wrappedValue: sessionId)
+    self._requestId = Field(wrappedValue: nil)
   }
 }
 
@@ -227,17 +304,21 @@ struct ObjectGenerationOptions: Record {
   @Field public var prompt: String
   @Field public var system: String?
   @Field public var schema: String
+  @Field public var guided: Bool?
   @Field public var temperature: Double?
   @Field("maxOutputTokens") public var maxOutputTokens: Int?
   @Field public var sessionId: String?
+  @Field public var requestId: String?
 
   public init() {
     self._prompt = Field(wrappedValue: "")
     self._system = Field(wrappedValue: nil)
     self._schema = Field(wrappedValue: "")
+    self._guided = Field(wrappedValue: nil)
     self._temperature = Field(wrappedValue: nil)
     self._maxOutputTokens = Field(wrappedValue: nil)
     self._sessionId = Field(wrappedValue: nil)
+    self._requestId = Field(wrappedValue: nil)
   }
 }
 
@@ -256,6 +337,40 @@ struct ObjectGenerationResult: Record {
   }
 }
 
+struct TranscriptTurnRecord: Record {
+  @Field public var role: String // "user" | "assistant"
+  @Field public var content: String
+
+  public init() {
+    self._role = Field(wrappedValue: "user")
+    self._content = Field(wrappedValue: "")
+  }
+}
+
+struct RestoreSessionOptions: Record {
+  @Field public var sessionId: String?
+  @Field public var system: String?
+  @Field public var turns: [TranscriptTurnRecord]
+
+  public init() {
+    self._sessionId = Field(wrappedValue: nil)
+    self._system = Field(wrappedValue: nil)
+    self._turns = Field(wrappedValue: [])
+  }
+}
+
+struct RestoreSessionResult: Record {
+  @Field public var sessionId: String
+
+  public init() {
+    self._sessionId = Field(wrappedValue: "")
+  }
+
+  public init(sessionId: String) {
+    self._sessionId = Field(wrappedValue: sessionId)
+  }
+}
+
 struct TextModelAvailabilityResult: Record {
   @Field public var status: String // "available" | "unavailable"
   @Field public var reasonCode: String?
@@ -272,6 +387,9 @@ struct TextModelAvailabilityResult: Record {
 }
 
 public final class AppleFoundationModelsModule: Module {
+  private let requests = RequestRegistry()
+  private var availabilityObserver: Task<Void, Never>?
+
 #if canImport(FoundationModels)
   // Stored properties cannot be marked @available. Use a lazy storage plus an accessor guarded by availability.
   private var _textSessionStore: Any? = nil
@@ -287,35 +405,29 @@ public final class AppleFoundationModelsModule: Module {
   public func definition() -> ModuleDefinition {
     Name("AppleFoundationModels")
 
+    Events("onTextStreamChunk", "onAvailabilityChange")
+
+    // Poll only while someone listens for availability; stream chunk
+    // listeners don't need it
+    OnStartObserving("onAvailabilityChange") {
+      self.startAvailabilityObserver()
+    }
+
+    OnStopObserving("onAvailabilityChange") {
+      self.availabilityObserver?.cancel()
+      self.availabilityObserver = nil
+    }
+
+    AsyncFunction("cancelRequest") { (requestId: String) in
+      await self.requests.cancel(requestId)
+    }
+
     AsyncFunction("isTextModelAvailable") { () -> Bool in
       TextAvailability.isSupported()
     }
 
     AsyncFunction("getTextModelAvailability") { () -> TextModelAvailabilityResult in
-#if canImport(FoundationModels)
-      if #available(iOS 26.0, *) {
-        let model = SystemLanguageModel.default
-        switch model.availability {
-        case .available:
-          return TextModelAvailabilityResult(status: "available")
-        case .unavailable(let reason):
-          let code: String = {
-            switch reason {
-            case .deviceNotEligible:
-              return "deviceNotEligible"
-            case .appleIntelligenceNotEnabled:
-              return "appleIntelligenceNotEnabled"
-            case .modelNotReady:
-              return "modelNotReady"
-            default:
-              return "unknown"
-            }
-          }()
-          return TextModelAvailabilityResult(status: "unavailable", reasonCode: code)
-        }
-      }
-#endif
-      return TextModelAvailabilityResult(status: "unavailable", reasonCode: "unsupported")
+      TextAvailability.current()
     }
 
     AsyncFunction("generateText") { (options: TextGenerationOptions) -> TextGenerationResult in
@@ -337,10 +449,12 @@ public final class AppleFoundationModelsModule: Module {
       let generationOptions = options.generationOptions()
 
       do {
-        let response = try await handle.session.respond(
-          to: trimmedPrompt,
-          options: generationOptions
-        )
+        let response = try await requests.run(options.requestId) {
+          try await handle.session.respond(
+            to: trimmedPrompt,
+            options: generationOptions
+          )
+        }
 
         return TextGenerationResult(text: response.content, sessionId: handle.id)
       } catch {
@@ -359,6 +473,86 @@ public final class AppleFoundationModelsModule: Module {
 #endif
     }
 
+    // Rebuild a session from a saved transcript so a conversation survives app restarts
+    AsyncFunction("restoreSession") { (options: RestoreSessionOptions) -> RestoreSessionResult in
+      guard TextAvailability.isSupported() else {
+        throw TextGenerationUnsupportedException()
+      }
+
+#if canImport(FoundationModels)
+      guard #available(iOS 26.0, *) else {
+        throw TextGenerationUnsupportedException()
+      }
+
+      let id = await textSessionStore.restore(options)
+      return RestoreSessionResult(sessionId: id)
+#else
+      throw TextGenerationUnsupportedException()
+#endif
+    }
+
+    AsyncFunction("releaseSession") { (sessionId: String) in
+#if canImport(FoundationModels)
+      if #available(iOS 26.0, *) {
+        await textSessionStore.release(sessionId)
+      }
+#endif
+    }
+
+    AsyncFunction("streamText") { (options: TextGenerationOptions) -> TextGenerationResult in
+      let trimmedPrompt = options.prompt.trimmingCharacters(in: .whitespacesAndNewlines)
+      guard !trimmedPrompt.isEmpty else {
+        throw TextGenerationPromptEmptyException()
+      }
+
+      guard TextAvailability.isSupported() else {
+        throw TextGenerationUnsupportedException()
+      }
+
+#if canImport(FoundationModels)
+      guard #available(iOS 26.0, *) else {
+        throw TextGenerationUnsupportedException()
+      }
+
+      let handle = try await textSessionStore.session(for: options)
+      let generationOptions = options.generationOptions()
+      let requestId = options.requestId ?? ""
+
+      do {
+        let text = try await requests.run(options.requestId) { () -> String in
+          let stream = handle.session.streamResponse(
+            to: trimmedPrompt,
+            options: generationOptions
+          )
+
+          // Snapshots carry the cumulative content; forward only what follows
+          // the part unchanged since the previous one, even if earlier text
+          // was revised
+          var text = ""
+          for try await snapshot in stream {
+            let current = snapshot.content
+            let unchanged = current.commonPrefix(with: text)
+            let delta = String(current.dropFirst(unchanged.count))
+            text = current
+            if delta.isEmpty { continue }
+            self.sendEvent("onTextStreamChunk", [
+              "requestId": requestId,
+              "delta": delta,
+              "text": current
+            ])
+          }
+          return text
+        }
+
+        return TextGenerationResult(text: text, sessionId: handle.id)
+      } catch {
+        throw TextGenerationFailureException(TextGenerationErrorContext.from(error: error))
+      }
+#else
+      throw TextGenerationUnsupportedException()
+#endif
+    }
+
     AsyncFunction("generateObject") { (options: ObjectGenerationOptions) -> ObjectGenerationResult in
       let trimmedPrompt = options.prompt.trimmingCharacters(in: .whitespacesAndNewlines)
       guard !trimmedPrompt.isEmpty else {
@@ -405,10 +599,24 @@ public final class AppleFoundationModelsModule: Module {
       if let temp = options.temperature { genOptions.temperature = temp }
 
       do {
-        let response = try await sessionHandle.session.respond(
-          to: trimmedPrompt,
-          options: genOptions
-        )
+        // Constrain decoding with a GenerationSchema when JS reports the schema is fully supported
+        if options.guided == true, let guidedSchema = try? GuidedSchemaBuilder.build(fromJSON: options.schema) {
+          let response = try await requests.run(options.requestId) {
+            try await sessionHandle.session.respond(
+              to: trimmedPrompt,
+              schema: guidedSchema,
+              options: genOptions
+            )
+          }
+          return ObjectGenerationResult(json: response.content.jsonString, sessionId: sessionHandle.id)
+        }
+
+        let response = try await requests.run(options.requestId) {
+          try await sessionHandle.session.respond(
+            to: trimmedPrompt,
+            options: genOptions
+          )
+        }
 
         // Attempt to extract a clean JSON substring (model may wrap with text accidentally)
         let raw = response.content
@@ -429,6 +637,25 @@ public final class AppleFoundationModelsModule: Module {
 #endif
     }
   }
+
+  // The system does not notify availability changes, so check natively while JS listens
+  private func startAvailabilityObserver() {
+    guard availabilityObserver == nil else { return }
+    availabilityObserver = Task { [weak self] in
+      var last = TextAvailability.current()
+      while !Task.isCancelled {
+        try? await Task.sleep(nanoseconds: 2_000_000_000)
+        let current = TextAvailability.current()
+        guard current.status != last.status || current.reasonCode != last.reasonCode else { continue }
+        last = current
+        var payload: [String: Any] = ["status": current.status]
+        if let reasonCode = current.reasonCode {
+          payload["reasonCode"] = reasonCode
+        }
+        self?.sendEvent("onAvailabilityChange", payload)
+      }
+    }
+  }
 }
 
 #if canImport(FoundationModels)
@@ -440,6 +667,8 @@ struct TextGenerationErrorContext {
     case timeout = "ERR_TEXT_GENERATION_TIMEOUT"
     case runtime = "ERR_TEXT_GENERATION_RUNTIME"
     case modelUnavailable = "ERR_TEXT_GENERATION_MODEL_UNAVAILABLE"
+    case contextOverflow = "ERR_TEXT_GENERATION_CONTEXT_OVERFLOW"
+    case guardrail = "ERR_TEXT_GENERATION_GUARDRAIL"
   }
 
   let code: Code
@@ -459,6 +688,16 @@ struct TextGenerationErrorContext {
       )
     }
 
+    if error is CancellationError {
+      return TextGenerationErrorContext(
+        code: .canceled,
+        message: "Text generation was canceled.",
+        cause: error,
+        nativeDomain: nil,
+        nativeCode: nil
+      )
+    }
+
     if let generationError = error as? LanguageModelSession.GenerationError {
       return mapGenerationError(generationError)
     }
@@ -489,8 +728,17 @@ struct TextGenerationErrorContext {
 
     // If the error already conforms to NSError, use heuristic mapping
     let nsError = (error as NSError)
+    var code = Self.heuristicCode(for: nsError)
+    switch error {
+    case .exceededContextWindowSize:
+      code = .contextOverflow
+    case .guardrailViolation:
+      code = .guardrail
+    default:
+      break
+    }
     return TextGenerationErrorContext(
-      code: Self.heuristicCode(for: nsError),
+      code: code,
       message: nsError.localizedDescription.ifEmpty("Text generation failed."),
       cause: underlying ?? error,
       nativeDomain: nsError.domain,
@@ -509,6 +757,16 @@ struct TextGenerationErrorContext {
       return .timeout
     }
 
+    // GenerationError.exceededContextWindowSize, when it reaches us type-erased
+    if description.contains("context window") || description.contains("context size") {
+      return .contextOverflow
+    }
+
+    // GenerationError.guardrailViolation, when it reaches us type-erased
+    if description.contains("guardrail") {
+      return .guardrail
+    }
+
     if description.contains("invalid") || description.contains("unsupported") {
       return .invalidArgument
     }
@@ -521,6 +779,98 @@ struct TextGenerationErrorContext {
   }
 }
 
+// Converts the JSON schema subset listed in NATIVE_SCHEMA_KEYWORDS (src/schema.ts)
+// into a GenerationSchema. Throws for anything outside it so callers can fall back.
+@available(iOS 26.0, *)
+enum GuidedSchemaBuilder {
+  struct UnsupportedSchema: Error {}
+
+  static func build(fromJSON json: String) throws -> GenerationSchema {
+    guard
+      let data = json.data(using: .utf8),
+      let root = try JSONSerialization.jsonObject(with: data, options: []) as? [String: Any]
+    else {
+      throw UnsupportedSchema()
+    }
+
+    var dependencies: [DynamicGenerationSchema] = []
+    if let defs = root["$defs"] as? [String: Any] {
+      for name in defs.keys.sorted() {
+        guard let def = defs[name] as? [String: Any] else { throw UnsupportedSchema() }
+        dependencies.append(try dynamicSchema(def, name: name))
+      }
+    }
+
+    return try GenerationSchema(root: try dynamicSchema(root, name: "Root"), dependencies: dependencies)
+  }
+
+  private static func dynamicSchema(_ node: [String: Any], name: String) throws -> DynamicGenerationSchema {
+    let description = node["description"] as? String
+
+    if let ref = node["$ref"] as? String {
+      let prefix = "#/$defs/"
+      guard ref.hasPrefix(prefix) else { throw UnsupportedSchema() }
+      return DynamicGenerationSchema(referenceTo: String(ref.dropFirst(prefix.count)))
+    }
+
+    if let branches = (node["anyOf"] ?? node["oneOf"]) as? [[String: Any]] {
+      let choices = try branches.enumerated().map { index, branch in
+        try dynamicSchema(branch, name: "\(name)_\(index)")
+      }
+      return DynamicGenerationSchema(name: name, description: description, anyOf: choices)
+    }
+
+    switch node["type"] as? String {
+    case "string":
+      if let options = node["enum"] as? [String] {
+        return DynamicGenerationSchema(name: name, description: description, anyOf: options)
+      }
+      if let constant = node["const"] as? String {
+        return DynamicGenerationSchema(name: name, description: description, anyOf: [constant])
+      }
+      var guides: [GenerationGuide<String>] = []
+      if let pattern = node["pattern"] as? String {
+        guides.append(.pattern(try Regex(pattern)))
+      }
+      return DynamicGenerationSchema(type: String.self, guides: guides)
+    case "integer":
+      var guides: [GenerationGuide<Int>] = []
+      if let minimum = node["minimum"] as? Double { guides.append(.minimum(Int(minimum.rounded(.up)))) }
+      if let maximum = node["maximum"] as? Double { guides.append(.maximum(Int(maximum.rounded(.down)))) }
+      return DynamicGenerationSchema(type: Int.self, guides: guides)
+    case "number":
+      var guides: [GenerationGuide<Double>] = []
+      if let minimum = node["minimum"] as? Double { guides.append(.minimum(minimum)) }
+      if let maximum = node["maximum"] as? Double { guides.append(.maximum(maximum)) }
+      return DynamicGenerationSchema(type: Double.self, guides: guides)
+    case "boolean":
+      return DynamicGenerationSchema(type: Bool.self)
+    case "array":
+      guard let items = node["items"] as? [String: Any] else { throw UnsupportedSchema() }
+      return DynamicGenerationSchema(
+        arrayOf: try dynamicSchema(items, name: "\(name)Item"),
+        minimumElements: node["minItems"] as? Int,
+        maximumElements: node["maxItems"] as? Int
+      )
+    case "object":
+      guard let properties = node["properties"] as? [String: Any] else { throw UnsupportedSchema() }
+      let required = Set(node["required"] as? [String] ?? [])
+      let members = try properties.keys.sorted().map { key -> DynamicGenerationSchema.Property in
+        guard let child = properties[key] as? [String: Any] else { throw UnsupportedSchema() }
+        return DynamicGenerationSchema.Property(
+          name: key,
+          description: child["description"] as? String,
+          schema: try dynamicSchema(child, name: "\(name)_\(key)"),
+          isOptional: !required.contains(key)
+        )
+      }
+      return DynamicGenerationSchema(name: name, description: description, properties: members)
+    default:
+      throw UnsupportedSchema()
+    }
+  }
+}
+
 private extension String {
   func ifEmpty(_ fallback: @autoclosure () -> String) -> String {
     if trimmingCharacters(in: .whitespacesAndNewlines).isEmpty {
@@ -558,6 +908,37 @@ private actor TextSessionStore {
     return (id, session)
   }
 
+  func restore(_ options: RestoreSessionOptions) -> String {
+    let normalizedInstructions = options.system?.trimmingCharacters(in: .whitespacesAndNewlines)
+    let id = options.sessionId ?? UUID().uuidString
+    let transcript = TextSessionStore.makeTranscript(instructions: normalizedInstructions, turns: options.turns)
+    entries[id] = Entry(session: LanguageModelSession(transcript: transcript), instructions: normalizedInstructions)
+    return id
+  }
+
+  func release(_ id: String) {
+    entries[id] = nil
+  }
+
+  private static func makeTranscript(instructions: String?, turns: [TranscriptTurnRecord]) -> Transcript {
+    func segments(_ text: String) -> [Transcript.Segment] {
+      [.text(Transcript.TextSegment(content: text))]
+    }
+
+    var entries: [Transcript.Entry] = []
+    if let instructions, !instructions.isEmpty {
+      entries.append(.instructions(Transcript.Instructions(segments: segments(instructions), toolDefinitions: [])))
+    }
+    for turn in turns {
+      if turn.role == "assistant" {
+        entries.append(.response(Transcript.Response(assetIDs: [], segments: segments(turn.content))))
+      } else {
+        entries.append(.prompt(Transcript.Prompt(segments: segments(turn.content))))
+      }
+    }
+    return Transcript(entries: entries)
+  }
+
   private static func makeSession(instructions: String?) -> LanguageModelSession {
     let instructions = instructions?.trimmingCharacters(in: .whitespacesAndNewlines)
 
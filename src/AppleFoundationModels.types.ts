@@ -1,5 +1,7 @@
 import type { StyleProp, ViewStyle } from "react-native";
 
+import type { StandardSchemaV1 } from "./standardSchema";
+
 /**
  * Options for a single text generation request.
  * - Provide a concise `prompt`. Keep it focused for best latency/quality on-device.
@@ -7,6 +9,9 @@ import type { StyleProp, ViewStyle } from "react-native";
  * - `temperature` should be conservative (e.g. 0.2–0.7) for deterministic outputs.
  * - `maxOutputTokens` bounds the response length.
  * - `sessionId` lets you continue a prior session; leave empty to auto-create.
+ * - `signal` cancels the request; the call rejects with `ERR_TEXT_GENERATION_CANCELED`.
+ * - `timeoutMs` bounds the wait; on expiry the call rejects with `ERR_TEXT_GENERATION_TIMEOUT`.
+ * - `tools` lets the model call back into JS (see `defineTool`); `maxToolSteps` caps the number of calls.
  */
 export type TextGenerationOptions = {
 	prompt: string;
@@ -14,23 +19,207 @@ export type TextGenerationOptions = {
 	temperature?: number;
 	maxOutputTokens?: number;
 	sessionId?: string;
+	signal?: AbortSignal;
+	timeoutMs?: number;
+	tools?: Tool[];
+	maxToolSteps?: number;
 };
 
-/** Result of a text generation call. */
-export type TextGenerationResult = {
+/**
+ * Result of a text generation call.
+ * `toolCalls` lists the tool invocations made while producing `text`, if any.
+ */
+export type TextGenerationResult = GenerationMetadata & {
 	text: string;
 	sessionId: string;
+	toolCalls?: ToolCall[];
+};
+
+/**
+ * Token counts for a generation. The on-device model does not report them
+ * today, so they are estimated (`estimated: true`) unless native provides them.
+ */
+export type GenerationUsage = {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	estimated: boolean;
+};
+
+/**
+ * Wall-clock timing of a generation, in milliseconds, measured in JS.
+ * `timeToFirstTokenMs` is only known for streamed generations.
+ */
+export type GenerationTiming = {
+	durationMs: number;
+	timeToFirstTokenMs?: number;
+};
+
+/**
+ * Why a generation ended.
+ * - `stop`: the model finished its answer.
+ * - `length`: the answer likely hit `maxOutputTokens` and may be truncated.
+ * - `guardrail`: the system's safety guardrails stopped it.
+ * - `cancelled`: the request was aborted or timed out.
+ */
+export type FinishReason = "stop" | "length" | "guardrail" | "cancelled";
+
+/**
+ * Optional metadata attached to generation results.
+ */
+export type GenerationMetadata = {
+	usage?: GenerationUsage;
+	timing?: GenerationTiming;
+	finishReason?: FinishReason;
 };
 
 // Keep the native-facing shape with 'system' to match the iOS bridge
+// `requestId` identifies the in-flight task so it can be cancelled natively
 export type NativeTextGenerationOptions = Omit<
 	TextGenerationOptions,
-	"instructions"
+	"instructions" | "signal" | "timeoutMs" | "tools" | "maxToolSteps"
 > & {
 	system?: string;
+	requestId?: string;
+};
+
+// Token counts are only present when the OS reports them
+export type NativeTextGenerationResult = Pick<
+	TextGenerationResult,
+	"text" | "sessionId"
+> & {
+	promptTokens?: number;
+	completionTokens?: number;
+};
+
+/**
+ * One message in an `LLMSession` transcript.
+ * - `timestamp`: when the message was sent or received (ISO 8601).
+ * - `options`: generation options the user turn was sent with.
+ * - `toolCalls`: tools the model called before producing an assistant turn.
+ * - `metadata`: usage, timing and finish reason of an assistant turn.
+ */
+export type TranscriptTurn = {
+	role: "user" | "assistant";
+	content: string;
+	timestamp: string;
+	options?: { temperature?: number; maxOutputTokens?: number };
+	toolCalls?: ToolCall[];
+	metadata?: GenerationMetadata; // assistant turns only
+};
+
+/**
+ * A turn in `useLLMSession`'s `history`. `id` identifies it for
+ * `editMessage()`, `regenerate()` and `switchBranch()`.
+ */
+export type ChatMessage = TranscriptTurn & { id: string };
+
+/**
+ * The alternatives for one message in `useLLMSession`'s `history`: its own
+ * id and those of its siblings (other edits of the same prompt, or other
+ * answers to it), oldest first. `index` is the position of the shown one.
+ */
+export type ChatBranch = {
+	index: number;
+	ids: string[];
+};
+
+/**
+ * Serializable snapshot of an `LLMSession`, produced by `exportTranscript()`
+ * and accepted by `LLMSession.fromTranscript()`. Plain JSON, safe to persist.
+ * `version` changes whenever the format does.
+ */
+export type LLMSessionTranscript = {
+	version: 1;
+	sessionId?: string;
+	instructions?: string;
+	summary?: string; // earlier turns condensed by the "summarize" context strategy
+	options: {
+		timeoutMs?: number;
+		maxToolSteps?: number;
+		contextWindow?: number;
+		contextStrategy?: ContextStrategy;
+	};
+	turns: TranscriptTurn[];
+};
+
+/**
+ * What an `LLMSession` does when the next request would not fit in the
+ * model's context window:
+ * - `none`: send it anyway; the native call may fail with
+ *   `ERR_TEXT_GENERATION_CONTEXT_OVERFLOW`.
+ * - `dropOldest`: forget the oldest turns until it fits.
+ * - `summarize`: condense older turns into a summary carried in the
+ *   instructions, dropping turns only if that is not enough.
+ */
+export type ContextStrategy = "none" | "dropOldest" | "summarize";
+
+/**
+ * How an `LLMSession` handles a request made while another is in flight:
+ * - `queue`: wait for the earlier requests, first in first out.
+ * - `reject`: fail right away with `ERR_TEXT_GENERATION_BUSY`.
+ * - `replace`: wait, but replace a request that is still waiting; the
+ *   replaced request fails with `ERR_TEXT_GENERATION_BUSY`.
+ */
+export type SessionConcurrency = "queue" | "reject" | "replace";
+
+/**
+ * Requests an `LLMSession` is handling: whether one is running, and how many
+ * are waiting behind it.
+ */
+export type SessionQueueState = {
+	running: boolean;
+	pending: number;
+};
+
+/**
+ * Estimated context window usage of a session, in tokens.
+ */
+export type ContextUsage = {
+	usedTokens: number;
+	contextWindow: number;
+	remainingTokens: number;
+};
+
+// Rebuilds a native session (and its context) from transcript turns
+export type NativeRestoreSessionOptions = {
+	sessionId?: string;
+	system?: string;
+	turns: Pick<TranscriptTurn, "role" | "content">[];
 };
 
-export type NativeTextGenerationResult = TextGenerationResult;
+export type NativeRestoreSessionResult = {
+	sessionId: string;
+};
+
+/**
+ * A single incremental piece of a streamed text response.
+ * - `delta` is the text produced since the previous chunk. If the model
+ *   revised earlier text, it is everything after the part that stayed the
+ *   same; `text` is always exact.
+ * - `text` is the full text produced so far.
+ */
+export type TextStreamChunk = {
+	delta: string;
+	text: string;
+};
+
+// Streaming requests carry a request id so chunk events can be routed back to the caller
+export type NativeTextStreamOptions = NativeTextGenerationOptions & {
+	requestId: string;
+};
+
+export type NativeTextStreamChunkEvent = TextStreamChunk & {
+	requestId: string;
+};
+
+/**
+ * Events emitted by the native module.
+ */
+export type AppleFoundationModelsModuleEvents = {
+	onTextStreamChunk: (event: NativeTextStreamChunkEvent) => void;
+	onAvailabilityChange: (event: TextModelAvailability) => void;
+};
 
 /**
  * Normalized error codes for text generation failures.
@@ -43,35 +232,302 @@ export type TextGenerationErrorCode =
 	| "ERR_TEXT_GENERATION_TIMEOUT"
 	| "ERR_TEXT_GENERATION_RUNTIME"
 	| "ERR_TEXT_GENERATION_MODEL_UNAVAILABLE"
+	| "ERR_TEXT_GENERATION_CONTEXT_OVERFLOW"
+	| "ERR_TEXT_GENERATION_BUSY"
+	| "ERR_TEXT_GENERATION_GUARDRAIL"
 	| "ERR_TEXT_MODEL_DEVICE_NOT_ELIGIBLE"
 	| "ERR_TEXT_MODEL_NOT_ENABLED"
 	| "ERR_TEXT_MODEL_NOT_READY"
 	| "ERR_TEXT_MODEL_UNKNOWN";
 
-// Minimal JSON schema (subset) for generateObject
-export type JSONSchema =
-	| { type: "string"; minLength?: number; maxLength?: number; enum?: string[] }
-	| { type: "number"; minimum?: number; maximum?: number }
-	| { type: "boolean" }
-	| { type: "array"; items: JSONSchema; minItems?: number; maxItems?: number }
+/**
+ * Keywords shared by every schema node.
+ * - `nullable` additionally accepts `null` (OpenAPI style).
+ * - `default` fills in a missing property before validation.
+ * - `$defs` holds reusable sub-schemas referenced with `{ $ref: "#/$defs/Name" }`.
+ */
+export type JSONSchemaAnnotations = {
+	title?: string;
+	description?: string;
+	nullable?: boolean;
+	default?: unknown;
+	$defs?: Record<string, JSONSchema>;
+};
+
+// JSON schema subset for generateObject. See `NATIVE_SCHEMA_KEYWORDS` for what
+// native guided generation accepts; the rest is enforced by the prompt fallback.
+export type JSONSchema = JSONSchemaAnnotations &
+	(
+		| {
+				type: "string";
+				minLength?: number;
+				maxLength?: number;
+				enum?: readonly string[];
+				const?: string;
+				pattern?: string;
+		  }
+		| {
+				type: "number" | "integer";
+				minimum?: number;
+				maximum?: number;
+				enum?: readonly number[];
+				const?: number;
+		  }
+		| { type: "boolean"; const?: boolean }
+		| { type: "null" }
+		| { type: "array"; items: JSONSchema; minItems?: number; maxItems?: number }
+		| {
+				type: "object";
+				properties: Record<string, JSONSchema>;
+				required?: readonly string[];
+				additionalProperties?: boolean;
+		  }
+		| { anyOf: readonly JSONSchema[] }
+		| {
+				oneOf: readonly JSONSchema[];
+				/** Selects the branch by the value of this property instead of trying each. */
+				discriminator?: { propertyName: string };
+		  }
+		| { const: string | number | boolean | null }
+		| { $ref: string }
+	);
+
+/**
+ * A single schema violation found in decoded model output.
+ * - `path` is a JSON Pointer to the offending value (`""` for the root), e.g. `/items/3/price`.
+ * - `keyword` is the schema keyword that failed, e.g. `maximum` or `required`.
+ * - `expected` is the constraint's value and `actual` the value found.
+ */
+export type SchemaValidationIssue = {
+	path: string;
+	keyword: string;
+	expected: unknown;
+	actual: unknown;
+	message: string;
+};
+
+/**
+ * A function the model may call while generating text.
+ * - `name` identifies the tool to the model (letters, digits, `_` and `-`).
+ * - `description` tells the model when the tool is useful.
+ * - `parameters` is an object schema; arguments are validated against it before `execute` runs.
+ * - `execute` receives the validated arguments and returns a JSON-serializable result.
+ */
+export type Tool<Args = unknown> = {
+	name: string;
+	description: string;
+	parameters: Extract<JSONSchema, { type: "object" }>;
+	// Method syntax keeps tools with specific argument types assignable to `Tool[]`
+	execute(args: Args, context: { signal?: AbortSignal }): unknown;
+};
+
+/**
+ * Record of a single tool invocation. Exactly one of `result` or `error` is set.
+ */
+export type ToolCall = {
+	name: string;
+	arguments: unknown;
+	result?: unknown;
+	error?: string;
+};
+
+type TrimName<S extends string> = S extends ` ${infer R}`
+	? TrimName<R>
+	: S extends `${infer R} `
+		? TrimName<R>
+		: S;
+
+/**
+ * Names of the `{{placeholders}}` in a prompt template.
+ */
+export type PromptVariables<T extends string> =
+	T extends `${string}{{${infer Name}}}${infer Rest}`
+		? TrimName<Name> | PromptVariables<Rest>
+		: never;
+
+/**
+ * A value for a prompt placeholder. Strings are fenced as untrusted data;
+ * numbers and booleans are inserted as they are.
+ */
+export type PromptValue = string | number | boolean;
+
+/**
+ * A few-shot example: values for the template's placeholders and the
+ * response expected for them. An `output` that is not a string is shown as
+ * JSON, as `generateObject` expects.
+ */
+export type PromptExample<Name extends string = string> = {
+	input: Record<Name, PromptValue>;
+	output: unknown;
+};
+
+/**
+ * Definition passed to `definePrompt`.
+ * - `instructions`: fixed system prompt; it cannot contain placeholders.
+ * - `template`: the prompt, with `{{name}}` placeholders.
+ * - `examples`: few-shot examples added to the instructions.
+ */
+export type PromptDefinition<T extends string = string> = {
+	instructions?: string;
+	template: T;
+	examples?: PromptExample<PromptVariables<T>>[];
+};
+
+/**
+ * `instructions` and `prompt` rendered by a `PromptTemplate`, ready to spread
+ * into `generateText`, `generateObject` or `streamObject` options.
+ */
+export type RenderedPrompt = {
+	instructions?: string;
+	prompt: string;
+};
+
+/**
+ * A prompt created by `definePrompt`.
+ */
+export type PromptTemplate<T extends string = string> = {
+	variables: PromptVariables<T>[];
+	render(variables: Record<PromptVariables<T>, PromptValue>): RenderedPrompt;
+};
+
+// Flatten intersections so inferred objects read as a single type in editors
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferSchemaRef<R extends string, Root> = R extends `#/$defs/${infer N}`
+	? Root extends { $defs: infer D }
+		? N extends keyof D
+			? InferSchema<D[N], Root>
+			: unknown
+		: unknown
+	: unknown;
+
+// Properties that are always present: listed in `required` or filled from `default`
+type PresentKeys<S, P> =
+	| (S extends { required: readonly (infer R)[] } ? R : never)
 	| {
-			type: "object";
-			properties: Record<string, JSONSchema>;
-			required?: string[];
-	  };
+			[K in keyof P]: P[K] extends { default: unknown } ? K : never;
+	  }[keyof P];
+
+type InferSchemaObject<S, P, Root> = Simplify<
+	{
+		-readonly [K in keyof P as K extends PresentKeys<S, P>
+			? K
+			: never]: InferSchema<P[K], Root>;
+	} & {
+		-readonly [K in keyof P as K extends PresentKeys<S, P>
+			? never
+			: K]?: InferSchema<P[K], Root>;
+	}
+>;
+
+type InferSchemaNode<S, Root> = S extends { $ref: infer R extends string }
+	? InferSchemaRef<R, Root>
+	: S extends { anyOf: readonly (infer B)[] }
+		? InferSchema<B, Root>
+		: S extends { oneOf: readonly (infer B)[] }
+			? InferSchema<B, Root>
+			: S extends { const: infer C }
+				? C
+				: S extends {
+							type: "string" | "number" | "integer";
+							enum: readonly (infer E)[];
+						}
+					? E
+					: S extends { type: "string" }
+						? string
+						: S extends { type: "number" | "integer" }
+							? number
+							: S extends { type: "boolean" }
+								? boolean
+								: S extends { type: "null" }
+									? null
+									: S extends { type: "array"; items: infer I }
+										? InferSchema<I, Root>[]
+										: S extends { type: "object"; properties: infer P }
+											? InferSchemaObject<S, P, Root>
+											: unknown;
 
-export type ObjectGenerationOptions<S extends JSONSchema = JSONSchema> = {
+/**
+ * Static type of the value described by a JSON schema literal.
+ *
+ * Honors `required`, `default`, `enum`, `const`, `nullable`, arrays, nested
+ * objects, `anyOf`/`oneOf` and `$ref`s into the root `$defs`. Declare the
+ * schema `as const` (or inline it) so its literal types are preserved; a
+ * schema typed as plain `JSONSchema` infers `unknown`.
+ *
+ * ```ts
+ * const schema = { type: "object", required: ["name"], properties: {
+ *   name: { type: "string" }, tags: { type: "array", items: { type: "string" } },
+ * } } as const;
+ * type Item = InferSchema<typeof schema>; // { name: string; tags?: string[] }
+ * ```
+ */
+export type InferSchema<S, Root = S> = [JSONSchema] extends [S]
+	? unknown // not a literal schema
+	: S extends { nullable: true }
+		? InferSchemaNode<S, Root> | null
+		: InferSchemaNode<S, Root>;
+
+/**
+ * A schema accepted by `generateObject`: a `JSONSchema`, or any Standard
+ * Schema validator (Zod, Valibot, ArkType, ...) that can be converted to one.
+ */
+export type ObjectSchema = JSONSchema | StandardSchemaV1;
+
+/**
+ * Static type of the object produced for `schema`: the validator's output type
+ * for a Standard Schema, otherwise `InferSchema<S>`.
+ */
+export type InferObjectSchema<S> = S extends StandardSchemaV1
+	? StandardSchemaV1.InferOutput<S>
+	: InferSchema<S>;
+
+/**
+ * Options for `generateObject`.
+ * - `maxRepairAttempts`: on a decode failure (invalid JSON or a schema mismatch),
+ *   re-prompt the same session this many times with the error and the bad
+ *   output, asking for a corrected object. Defaults to 0 (no repair).
+ * - `timeoutMs` applies to each attempt.
+ * - `strictJSON`: require the model output to be exactly one JSON value. By
+ *   default JSON is extracted from code fences, surrounding prose and trailing
+ *   commas are tolerated.
+ */
+export type ObjectGenerationOptions<S extends ObjectSchema = ObjectSchema> = {
 	prompt: string;
 	instructions?: string;
 	schema: S;
 	sessionId?: string;
+	signal?: AbortSignal;
+	timeoutMs?: number;
+	maxRepairAttempts?: number;
+	strictJSON?: boolean;
 };
 
-export type ObjectGenerationResult<T = unknown> = {
+export type ObjectGenerationResult<T = unknown> = GenerationMetadata & {
 	object: T;
 	sessionId: string;
+	attempts: number; // model turns used, 1 when no repair was needed
 };
 
+/**
+ * Options for `streamObject`: the same as `generateObject`, without repair
+ * turns since partial output has already been delivered.
+ */
+export type StreamObjectOptions<S extends ObjectSchema = ObjectSchema> = Omit<
+	ObjectGenerationOptions<S>,
+	"maxRepairAttempts"
+>;
+
+/**
+ * `T` with every property optional at any depth, the shape of an object that
+ * is still being streamed. Array elements are partial too.
+ */
+export type DeepPartial<T> = T extends readonly (infer U)[]
+	? DeepPartial<U>[]
+	: T extends object
+		? { [K in keyof T]?: DeepPartial<T[K]> }
+		: T;
+
 export type ObjectGenerationErrorCode =
 	| "ERR_OBJECT_GENERATION_UNSUPPORTED"
 	| "ERR_OBJECT_PROMPT_INVALID"
@@ -84,9 +540,11 @@ export type NativeObjectGenerationOptions = {
 	prompt: string;
 	system?: string; // mirrors native terminology
 	schema: string; // stringified JSON schema
+	guided?: boolean; // schema only uses natively supported keywords
 	sessionId?: string;
 	temperature?: number;
 	maxOutputTokens?: number;
+	requestId?: string;
 };
 
 export type NativeObjectGenerationResult = {
@@ -131,4 +589,43 @@ export type TextModelAvailability =
 				| "unsupported";
 	  };
 
+/**
+ * A backend that serves generations. Apple's on-device model is the default
+ * provider; one registered with `registerFallbackProvider()` serves requests
+ * while it is unavailable.
+ *
+ * Requests and results use the native bridge shapes. A request without a
+ * `sessionId` starts a conversation; the provider returns the id to continue
+ * it and keeps its context. Optional members:
+ * - `generateObject`: guided generation. Without it, `generateObject` prompts
+ *   for JSON through `generateText`.
+ * - `streamText`: call `onChunk` as text is produced. Without it, streams
+ *   receive the whole response as one chunk.
+ * - `restoreSession`: start a session that already contains `turns`. Without
+ *   it, a restored `LLMSession` continues in a new session that has not seen
+ *   the earlier turns.
+ * - `cancelRequest`: stop the request started with `requestId` after an abort
+ *   or timeout. Ids the provider did not start should be ignored.
+ * - `releaseSession`: free a session that will not be continued.
+ */
+export type LanguageModelProvider = {
+	name: string;
+	getAvailability(): Promise<TextModelAvailability>;
+	generateText(
+		options: NativeTextGenerationOptions,
+	): Promise<NativeTextGenerationResult>;
+	generateObject?(
+		options: NativeObjectGenerationOptions,
+	): Promise<NativeObjectGenerationResult>;
+	streamText?(
+		options: NativeTextStreamOptions,
+		onChunk: (chunk: TextStreamChunk) => void,
+	): Promise<NativeTextGenerationResult>;
+	restoreSession?(
+		options: NativeRestoreSessionOptions,
+	): Promise<NativeRestoreSessionResult>;
+	cancelRequest?(requestId: string): Promise<void>;
+	releaseSession?(sessionId: string): Promise<void>;
+};
+
 // (Doc block moved above the first definitions to avoid duplicate declarations)
@@ -1,22 +1,34 @@
 import { NativeModule, requireNativeModule } from "expo";
 
 import type {
+	AppleFoundationModelsModuleEvents,
 	NativeObjectGenerationOptions,
 	NativeObjectGenerationResult,
+	NativeRestoreSessionOptions,
+	NativeRestoreSessionResult,
 	NativeTextGenerationOptions,
 	NativeTextGenerationResult,
+	NativeTextStreamOptions,
 	TextModelAvailability,
 } from "./AppleFoundationModels.types";
 
-declare class AppleFoundationModelsModule extends NativeModule {
+declare class AppleFoundationModelsModule extends NativeModule<AppleFoundationModelsModuleEvents> {
 	isTextModelAvailable(): Promise<boolean>;
 	getTextModelAvailability(): Promise<TextModelAvailability>;
 	generateText(
 		options: NativeTextGenerationOptions,
 	): Promise<NativeTextGenerationResult>;
+	streamText(
+		options: NativeTextStreamOptions,
+	): Promise<NativeTextGenerationResult>;
 	generateObject(
 		options: NativeObjectGenerationOptions,
 	): Promise<NativeObjectGenerationResult>;
+	restoreSession(
+		options: NativeRestoreSessionOptions,
+	): Promise<NativeRestoreSessionResult>;
+	releaseSession(sessionId: string): Promise<void>;
+	cancelRequest(requestId: string): Promise<void>;
 }
 
 export default requireNativeModule<AppleFoundationModelsModule>(
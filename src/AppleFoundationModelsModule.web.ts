@@ -1,12 +1,24 @@
 import { NativeModule, registerWebModule } from "expo";
 
 import type {
+	AppleFoundationModelsModuleEvents,
+	NativeRestoreSessionOptions,
+	NativeRestoreSessionResult,
 	NativeTextGenerationOptions,
 	NativeTextGenerationResult,
+	NativeTextStreamOptions,
 	TextModelAvailability,
 } from "./AppleFoundationModels.types";
+import { TextGenerationError } from "./errors";
 
-class AppleFoundationModelsModule extends NativeModule {
+function unsupported(): TextGenerationError {
+	return new TextGenerationError({
+		code: "ERR_TEXT_GENERATION_UNSUPPORTED",
+		message: "Text generation is not supported in web environments.",
+	});
+}
+
+class AppleFoundationModelsModule extends NativeModule<AppleFoundationModelsModuleEvents> {
 	async isTextModelAvailable(): Promise<boolean> {
 		return false;
 	}
@@ -21,8 +33,24 @@ class AppleFoundationModelsModule extends NativeModule {
 	async generateText(
 		_options: NativeTextGenerationOptions,
 	): Promise<NativeTextGenerationResult> {
-		throw new Error("Text generation is not supported in web environments.");
+		throw unsupported();
+	}
+
+	async streamText(
+		_options: NativeTextStreamOptions,
+	): Promise<NativeTextGenerationResult> {
+		throw unsupported();
 	}
+
+	async restoreSession(
+		_options: NativeRestoreSessionOptions,
+	): Promise<NativeRestoreSessionResult> {
+		throw unsupported();
+	}
+
+	async releaseSession(_sessionId: string): Promise<void> {}
+
+	async cancelRequest(_requestId: string): Promise<void> {}
 }
 
 export default registerWebModule(
@@ -1,9 +1,37 @@
 import type {
+	ContextStrategy,
+	ContextUsage,
+	GenerationMetadata,
+	GenerationUsage,
+	LanguageModelProvider,
+	LLMSessionTranscript,
 	NativeTextGenerationOptions,
 	NativeTextGenerationResult,
+	SessionConcurrency,
+	SessionQueueState,
+	Tool,
+	ToolCall,
+	TranscriptTurn,
 } from "./AppleFoundationModels.types";
-import AppleFoundationModelsModule from "./AppleFoundationModelsModule.ios";
-import { toTextGenerationError } from "./errors";
+import { runCancellable } from "./cancellation";
+import { TextGenerationError, toTextGenerationError } from "./errors";
+import {
+	addUsage,
+	finishReasonFromError,
+	type GenerationRequestInfo,
+	generationMetadata,
+	generationUsage,
+	startGenerationTimer,
+} from "./metadata";
+import { getActiveProvider, providerStreamText } from "./provider";
+import { RequestQueue, type TrackRequest } from "./requestQueue";
+import { createTextStream, type TextStream } from "./streamText";
+import {
+	DEFAULT_CONTEXT_WINDOW,
+	DEFAULT_RESPONSE_TOKENS,
+	estimateTokens,
+} from "./tokens";
+import { runToolLoop, withToolInstructions } from "./tools";
 
 /**
  * Lightweight JS wrapper that models Apple's `LanguageModelSession` behavior.
@@ -11,22 +39,58 @@ import { toTextGenerationError } from "./errors";
  * Notes:
  * - The underlying native session is created lazily on the first `ask()` call.
  * - A stable `sessionId` is maintained and updated with each response to preserve context.
+ * - Use `streamAsk()` to receive the response incrementally.
  * - Use `reset()` to change the system instructions for subsequent generations.
  * - Use `destroy()` to clear any locally tracked session metadata.
+ * - `timeoutMs` sets a default time limit for every request; `AskParams.timeoutMs` overrides it.
+ * - `tools` are available to every `ask()`; `maxToolSteps` caps tool calls per ask.
+ * - Use `exportTranscript()` to save the conversation and `LLMSession.fromTranscript()`
+ *   to continue it after an app restart.
+ * - `contextWindow` (default 4096 tokens) and `contextStrategy` (default `"none"`)
+ *   control what happens before a request would overflow the context window;
+ *   `getContextUsage()` reports the estimated budget used.
+ * - `lastMetadata` holds the usage, timing and finish reason of the latest request.
+ * - Requests go to the active provider (see `registerFallbackProvider()`) chosen
+ *   on the first request; the session keeps it, since a conversation cannot
+ *   move between providers.
+ * - Requests run one at a time. `concurrency` (default `"queue"`) decides what
+ *   a call made while another is in flight does; `queueState` and
+ *   `onQueueChange()` report it.
  *
  * @see https://developer.apple.com/documentation/foundationmodels/languagemodelsession
  */
 export type CreateLLMSessionOptions = {
 	instructions?: string;
 	sessionId?: string;
+	timeoutMs?: number;
+	tools?: Tool[];
+	maxToolSteps?: number;
+	contextWindow?: number;
+	contextStrategy?: ContextStrategy;
+	concurrency?: SessionConcurrency;
 };
 
+// Recent turns kept verbatim when older ones are summarized
+const SUMMARY_KEEP_TURNS = 2;
+
+function formatTurns(turns: TranscriptTurn[]): string {
+	return turns
+		.map(
+			(turn) =>
+				`${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`,
+		)
+		.join("\n");
+}
+
 /**
  * Parameters for a single text generation request.
  *
  * - `prompt`: User message to send to the model.
  * - `temperature`: Higher values increase randomness. If omitted, native default is used.
  * - `maxOutputTokens`: Upper bound on the length of the generated text.
+ * - `signal`: Aborts the request; the call rejects with `ERR_TEXT_GENERATION_CANCELED`.
+ * - `timeoutMs`: Overrides the session's default time limit; on expiry the call
+ *   rejects with `ERR_TEXT_GENERATION_TIMEOUT`.
  *
  * @see https://developer.apple.com/documentation/foundationmodels/languagemodelsession
  */
@@ -34,6 +98,8 @@ export type AskParams = {
 	prompt: string;
 	temperature?: number;
 	maxOutputTokens?: number;
+	signal?: AbortSignal;
+	timeoutMs?: number;
 };
 
 /**
@@ -44,14 +110,53 @@ export type AskParams = {
 export class LLMSession {
 	private _sessionId: string | undefined;
 	private _instructions: string | undefined;
+	private readonly _timeoutMs: number | undefined;
+	private readonly _tools: Tool[];
+	private readonly _maxToolSteps: number | undefined;
+	private readonly _contextWindow: number;
+	private readonly _contextStrategy: ContextStrategy;
+	private _summary: string | undefined;
+	private _turns: TranscriptTurn[] = [];
+	// Set when turns were loaded from a transcript but the native session has not seen them
+	private _needsRestore = false;
+	private _lastMetadata: GenerationMetadata | undefined;
+	private _provider: LanguageModelProvider | undefined;
+	private readonly _queue: RequestQueue;
 
 	private constructor({
 		instructions,
 		sessionId,
+		timeoutMs,
+		tools,
+		maxToolSteps,
+		contextWindow = DEFAULT_CONTEXT_WINDOW,
+		contextStrategy = "none",
+		concurrency = "queue",
 	}: CreateLLMSessionOptions = {}) {
 		const value = instructions?.trim();
 		this._instructions = value || undefined;
 		this._sessionId = sessionId?.trim() || undefined;
+		this._timeoutMs = timeoutMs;
+		this._tools = tools ?? [];
+		this._maxToolSteps = maxToolSteps;
+		this._contextWindow = contextWindow;
+		this._contextStrategy = contextStrategy;
+		this._queue = new RequestQueue(concurrency);
+	}
+
+	// Instructions as sent to native, with the conversation summary and the
+	// tool catalog appended when present
+	private get _system(): string | undefined {
+		const instructions = this._summary
+			? [
+					this._instructions,
+					`Summary of the earlier conversation:\n${this._summary}`,
+				]
+					.filter(Boolean)
+					.join("\n\n")
+			: this._instructions;
+		if (this._tools.length === 0) return instructions;
+		return withToolInstructions(instructions, this._tools);
 	}
 
 	/**
@@ -70,6 +175,39 @@ export class LLMSession {
 		return new LLMSession(options);
 	}
 
+	/**
+	 * Continue a conversation saved with `exportTranscript()`.
+	 *
+	 * The native context is rebuilt from the transcript's turns lazily, before
+	 * the first `ask()` or `streamAsk()`. Tools cannot be serialized, so pass
+	 * them again in `options`; the other options default to the values saved in
+	 * the transcript.
+	 *
+	 * @throws `TextGenerationError` with `ERR_TEXT_GENERATION_INVALID_ARGUMENT`
+	 * when the transcript version is not supported.
+	 */
+	static async fromTranscript(
+		transcript: LLMSessionTranscript,
+		options: Omit<CreateLLMSessionOptions, "instructions" | "sessionId"> = {},
+	): Promise<LLMSession> {
+		if (transcript?.version !== 1 || !Array.isArray(transcript.turns)) {
+			throw toTextGenerationError({
+				code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT",
+				message: `Unsupported transcript version: ${String(transcript?.version)}.`,
+			});
+		}
+		const session = new LLMSession({
+			instructions: transcript.instructions,
+			sessionId: transcript.sessionId,
+			...transcript.options,
+			...options,
+		});
+		session._summary = transcript.summary;
+		session._turns = transcript.turns.map((turn) => ({ ...turn }));
+		session._needsRestore = session._turns.length > 0;
+		return session;
+	}
+
 	/**
 	 * The current session identifier, if one has been established.
 	 * This becomes defined after the first successful `ask()`.
@@ -78,6 +216,31 @@ export class LLMSession {
 		return this._sessionId;
 	}
 
+	/**
+	 * Usage, timing and finish reason of the most recent `ask()` or
+	 * `streamAsk()`. After a failure only `timing` and, for cancellation,
+	 * timeouts and guardrail violations, `finishReason` are set.
+	 */
+	get lastMetadata(): GenerationMetadata | undefined {
+		return this._lastMetadata;
+	}
+
+	/**
+	 * Whether a request is running and how many are waiting behind it.
+	 */
+	get queueState(): SessionQueueState {
+		return this._queue.state;
+	}
+
+	/**
+	 * Call `listener` whenever `queueState` changes.
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	onQueueChange(listener: (state: SessionQueueState) => void): () => void {
+		return this._queue.addListener(listener);
+	}
+
 	/**
 	 * The active system instructions (system prompt) applied to generations.
 	 */
@@ -100,15 +263,222 @@ export class LLMSession {
 	}
 
 	/**
-	 * Clear any locally held session state.
+	 * Clear any locally held session state and release the native session.
 	 *
-	 * This does not signal the native side to terminate, but it forgets the
-	 * `sessionId` and instructions on the JS side so a subsequent `ask()` will
-	 * start fresh.
+	 * The `sessionId` and instructions are forgotten on the JS side so a
+	 * subsequent `ask()` will start fresh.
 	 */
 	destroy(): void {
+		this._releaseNative();
 		this._sessionId = undefined;
 		this._instructions = undefined;
+		this._summary = undefined;
+		this._turns = [];
+		this._needsRestore = false;
+		this._lastMetadata = undefined;
+		this._provider = undefined;
+	}
+
+	/**
+	 * Free the native session while keeping the conversation. The next
+	 * `ask()` or `streamAsk()` rebuilds the native context from the recorded
+	 * turns, as after `fromTranscript()`. Call it while no request is running;
+	 * `SessionRegistry` uses it to evict idle sessions.
+	 */
+	release(): void {
+		if (!this._sessionId) return;
+		this._releaseNative();
+		if (this._turns.length > 0 || this._summary) {
+			this._needsRestore = true;
+		} else {
+			this._sessionId = undefined;
+		}
+	}
+
+	/**
+	 * Replace the recorded conversation with `turns`, for example to continue
+	 * from an earlier turn or from an edited prompt. The native context is
+	 * rebuilt from them before the next `ask()` or `streamAsk()`, and any
+	 * summary made by the `"summarize"` strategy is dropped. Call it while no
+	 * request is running.
+	 */
+	setTurns(turns: TranscriptTurn[]): void {
+		this._summary = undefined;
+		this._turns = turns.map((turn) => ({ ...turn }));
+		this._needsRestore =
+			this._turns.length > 0 || this._sessionId !== undefined;
+	}
+
+	private _releaseNative(): void {
+		const sessionId = this._sessionId;
+		const provider = this._provider;
+		if (!sessionId || !provider?.releaseSession) return;
+		provider.releaseSession(sessionId).catch(() => {});
+	}
+
+	private async _getProvider(): Promise<LanguageModelProvider> {
+		this._provider ??= await getActiveProvider();
+		return this._provider;
+	}
+
+	/**
+	 * Estimate how much of the context window the session uses: instructions
+	 * (with any summary and tool catalog) plus every recorded turn.
+	 */
+	getContextUsage(): ContextUsage {
+		const usedTokens = this._turns.reduce(
+			(sum, turn) => sum + estimateTokens(turn.content),
+			estimateTokens(this._system),
+		);
+		return {
+			usedTokens,
+			contextWindow: this._contextWindow,
+			remainingTokens: Math.max(0, this._contextWindow - usedTokens),
+		};
+	}
+
+	// Apply the context strategy so `prompt` and its response fit the window
+	private async _fitContext(
+		prompt: string,
+		maxOutputTokens: number | undefined,
+		signal: AbortSignal | undefined,
+	): Promise<void> {
+		if (this._contextStrategy === "none") return;
+		const needed =
+			estimateTokens(prompt) + (maxOutputTokens ?? DEFAULT_RESPONSE_TOKENS);
+		const fits = () => this.getContextUsage().remainingTokens >= needed;
+		if (fits()) return;
+
+		if (
+			this._contextStrategy === "summarize" &&
+			this._turns.length > SUMMARY_KEEP_TURNS
+		) {
+			await this._summarizeOlderTurns(signal);
+		}
+		// Drop whole exchanges so the history never starts with a reply
+		while (!fits() && this._turns.length > 0) {
+			this._turns.shift();
+			while (this._turns[0]?.role === "assistant") this._turns.shift();
+			this._needsRestore = true;
+		}
+		if (!fits()) {
+			throw new TextGenerationError({
+				code: "ERR_TEXT_GENERATION_CONTEXT_OVERFLOW",
+				message: `Prompt does not fit in the context window (about ${needed} tokens needed, ${this.getContextUsage().remainingTokens} available).`,
+			});
+		}
+	}
+
+	// Fold all but the most recent turns into the running summary
+	private async _summarizeOlderTurns(
+		signal: AbortSignal | undefined,
+	): Promise<void> {
+		const older = this._turns.slice(0, -SUMMARY_KEEP_TURNS);
+		const previous = this._summary
+			? `Summary so far:\n${this._summary}\n\n`
+			: "";
+		const provider = await this._getProvider();
+		const { text } = await runCancellable(
+			(requestId) => {
+				const request = provider.generateText({
+					prompt: `${previous}Conversation:\n${formatTurns(older)}`,
+					system:
+						"Summarize the conversation in a few sentences, keeping names, facts and decisions needed to continue it.",
+					temperature: 0.2,
+					maxOutputTokens: 256,
+					requestId,
+				});
+				// Each summary runs in a throwaway native session; free it even
+				// when the summary is abandoned after an abort or timeout
+				request
+					.then(({ sessionId }) => provider.releaseSession?.(sessionId))
+					.catch(() => {});
+				return request;
+			},
+			{ signal, timeoutMs: this._timeoutMs },
+		);
+		this._summary = text.trim();
+		this._turns = this._turns.slice(-SUMMARY_KEEP_TURNS);
+		this._needsRestore = true;
+	}
+
+	/**
+	 * Snapshot the conversation as versioned, JSON-serializable data: the
+	 * instructions, every completed turn with its timestamp and generation
+	 * options, and the session's `timeoutMs` / `maxToolSteps`.
+	 *
+	 * Requests that failed or were canceled are not recorded.
+	 */
+	exportTranscript(): LLMSessionTranscript {
+		return {
+			version: 1,
+			sessionId: this._sessionId,
+			instructions: this._instructions,
+			summary: this._summary,
+			options: {
+				timeoutMs: this._timeoutMs,
+				maxToolSteps: this._maxToolSteps,
+				contextWindow: this._contextWindow,
+				contextStrategy: this._contextStrategy,
+			},
+			turns: this._turns.map((turn) => ({ ...turn })),
+		};
+	}
+
+	// Replay restored turns into a fresh native session before the next request;
+	// providers that cannot restore continue in a new session instead
+	private async _restoreNativeSession(): Promise<void> {
+		if (!this._needsRestore) return;
+		const provider = await this._getProvider();
+		if (!provider.restoreSession) {
+			this._sessionId = undefined;
+			this._needsRestore = false;
+			return;
+		}
+		const result = await provider.restoreSession({
+			sessionId: this._sessionId,
+			system: this._system,
+			turns: this._turns.map(({ role, content }) => ({ role, content })),
+		});
+		this._sessionId = result.sessionId;
+		this._needsRestore = false;
+	}
+
+	private _recordTurns(
+		prompt: string,
+		sentAt: string,
+		reply: string,
+		{
+			temperature,
+			maxOutputTokens,
+			toolCalls,
+			metadata,
+		}: {
+			temperature?: number;
+			maxOutputTokens?: number;
+			toolCalls?: ToolCall[];
+			metadata?: GenerationMetadata;
+		},
+	): void {
+		this._lastMetadata = metadata;
+		const options =
+			temperature != null || maxOutputTokens != null
+				? { temperature, maxOutputTokens }
+				: undefined;
+		this._turns.push(
+			{ role: "user", content: prompt, timestamp: sentAt, options },
+			{
+				role: "assistant",
+				content: reply,
+				timestamp: new Date().toISOString(),
+				toolCalls: toolCalls?.length ? toolCalls : undefined,
+				metadata,
+			},
+		);
+	}
+
+	private _failed(error: unknown, timing: GenerationMetadata["timing"]): void {
+		this._lastMetadata = { timing, finishReason: finishReasonFromError(error) };
 	}
 
 	/**
@@ -121,6 +491,15 @@ export class LLMSession {
 	 *
 	 * Errors are normalized via `toTextGenerationError` and may include:
 	 * - `ERR_TEXT_PROMPT_INVALID` when `prompt` is empty
+	 * - `ERR_TEXT_GENERATION_CANCELED` when `signal` is aborted; the session
+	 *   keeps its previous `sessionId`
+	 * - `ERR_TEXT_GENERATION_TIMEOUT` when the effective `timeoutMs` elapses
+	 *   (per model turn when tools are called)
+	 * - `ERR_TEXT_GENERATION_RUNTIME` when the model exceeds `maxToolSteps`
+	 * - `ERR_TEXT_GENERATION_CONTEXT_OVERFLOW` when the conversation no longer
+	 *   fits the context window and `contextStrategy` cannot make room
+	 * - `ERR_TEXT_GENERATION_BUSY` when another request is in flight and
+	 *   `concurrency` is `"reject"`, or this one was replaced under `"replace"`
 	 * - Transport or platform errors originating from the native layer
 	 *
 	 * @param params Request parameters including `prompt`, `temperature`, and `maxOutputTokens`.
@@ -132,6 +511,8 @@ export class LLMSession {
 		prompt,
 		temperature,
 		maxOutputTokens,
+		signal,
+		timeoutMs = this._timeoutMs,
 	}: AskParams): Promise<string> {
 		const trimmed = prompt?.trim();
 		if (!trimmed) {
@@ -141,22 +522,167 @@ export class LLMSession {
 			});
 		}
 
-		try {
-			const options: NativeTextGenerationOptions = {
-				prompt: trimmed,
-				system: this._instructions,
-				temperature,
-				maxOutputTokens,
-				sessionId: this._sessionId,
-			};
-
-			const result: NativeTextGenerationResult =
-				await AppleFoundationModelsModule.generateText(options);
+		const send = async (text: string, track: TrackRequest) => {
+			const provider = await this._getProvider();
+			const result: NativeTextGenerationResult = await runCancellable(
+				(requestId) => {
+					const options: NativeTextGenerationOptions = {
+						prompt: text,
+						system: this._system,
+						temperature,
+						maxOutputTokens,
+						sessionId: this._sessionId,
+						requestId,
+					};
+					return provider.generateText(options);
+				},
+				{ signal, timeoutMs, track },
+			);
 
 			this._sessionId = result.sessionId;
-			return result.text;
-		} catch (error) {
-			throw toTextGenerationError(error);
-		}
+			return result;
+		};
+
+		// Queued so overlapping calls never reach the native session at once
+		return this._queue.run(async (track) => {
+			const sentAt = new Date().toISOString();
+			const timer = startGenerationTimer();
+			try {
+				await this._fitContext(trimmed, maxOutputTokens, signal);
+				await this._restoreNativeSession();
+				const info: GenerationRequestInfo = {
+					prompt: trimmed,
+					system: this._system,
+					maxOutputTokens,
+				};
+				if (this._tools.length === 0) {
+					const result = await send(trimmed, track);
+					this._recordTurns(trimmed, sentAt, result.text, {
+						temperature,
+						maxOutputTokens,
+						metadata: generationMetadata(info, result, timer),
+					});
+					return result.text;
+				}
+				// Count the tokens of every model turn, not just the last
+				let usage: GenerationUsage | undefined;
+				const result = await runToolLoop({
+					prompt: trimmed,
+					tools: this._tools,
+					maxToolSteps: this._maxToolSteps,
+					signal,
+					send: async (text) => {
+						const response = await send(text, track);
+						usage = addUsage(
+							usage,
+							generationUsage({ ...info, prompt: text }, response),
+						);
+						return response;
+					},
+				});
+				const metadata = generationMetadata(info, result, timer);
+				this._recordTurns(trimmed, sentAt, result.text, {
+					temperature,
+					maxOutputTokens,
+					toolCalls: result.toolCalls,
+					metadata: { ...metadata, usage: usage ?? metadata.usage },
+				});
+				return result.text;
+			} catch (error) {
+				const normalized = toTextGenerationError(error);
+				this._failed(normalized, timer.finish());
+				throw normalized;
+			}
+		}, signal);
+	}
+
+	/**
+	 * Stream a response to `prompt`, yielding text deltas as they are produced.
+	 *
+	 * Shares context with `ask()`: the local `sessionId` is updated once the
+	 * stream's `result` resolves, and `result` carries the same metadata as
+	 * `lastMetadata`. Streams wait their turn in the session's queue like
+	 * `ask()` calls. Not available on sessions created with
+	 * `tools`; the stream fails with `ERR_TEXT_GENERATION_INVALID_ARGUMENT`.
+	 *
+	 * @param params Request parameters including `prompt`, `temperature`, and `maxOutputTokens`.
+	 * @returns A `TextStream` to iterate, with a final `result`.
+	 * @see https://developer.apple.com/documentation/foundationmodels/languagemodelsession/streamresponse(to:options:)
+	 */
+	streamAsk({
+		prompt,
+		temperature,
+		maxOutputTokens,
+		signal,
+		timeoutMs = this._timeoutMs,
+	}: AskParams): TextStream {
+		const trimmed = prompt?.trim();
+		let sentAt = "";
+		let info: GenerationRequestInfo = { prompt: trimmed ?? "" };
+		let startedAt = Date.now();
+
+		const stream = createTextStream(
+			async (requestId, onChunk) => {
+				if (!trimmed) {
+					throw toTextGenerationError({
+						code: "ERR_TEXT_PROMPT_INVALID",
+						message: "Prompt must be a non-empty string.",
+					});
+				}
+
+				if (this._tools.length > 0) {
+					throw toTextGenerationError({
+						code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT",
+						message: "Tools are not supported when streaming; use ask().",
+					});
+				}
+
+				startedAt = Date.now();
+				sentAt = new Date().toISOString();
+				await this._fitContext(trimmed, maxOutputTokens, signal);
+				await this._restoreNativeSession();
+				info = { prompt: trimmed, system: this._system, maxOutputTokens };
+				return providerStreamText(
+					await this._getProvider(),
+					{
+						prompt: trimmed,
+						system: this._system,
+						temperature,
+						maxOutputTokens,
+						sessionId: this._sessionId,
+						requestId,
+					},
+					onChunk,
+				);
+			},
+			{
+				signal,
+				timeoutMs,
+				request: () => info,
+				schedule: (start) =>
+					this._queue.run(async (track) => {
+						// Adopted only once the request settles, so a result that
+						// arrives after an abort or timeout is ignored
+						const result = await start(track);
+						this._sessionId = result.sessionId;
+						return result;
+					}, signal),
+			},
+		);
+		// Registered before the caller can await `result`, so the turns are
+		// recorded by the time it resolves for them
+		stream.result.then(
+			({ text, usage, timing, finishReason }) => {
+				this._recordTurns(info.prompt, sentAt, text, {
+					temperature,
+					maxOutputTokens,
+					metadata: { usage, timing, finishReason },
+				});
+			},
+			(error) => {
+				this._failed(error, { durationMs: Date.now() - startedAt });
+			},
+		);
+		return stream;
 	}
 }
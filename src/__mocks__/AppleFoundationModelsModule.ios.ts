@@ -0,0 +1,9 @@
+/**
+ * Manual Jest mock of the native module. Activate with
+ * `jest.mock("<path>/AppleFoundationModelsModule.ios")`.
+ *
+ * This is the scriptable `mockNativeModule` from the `/testing` entry point;
+ * see `createMockNativeModule()` for queuing replies, simulating availability
+ * and inspecting calls.
+ */
+export { mockNativeModule as default } from "../testing";
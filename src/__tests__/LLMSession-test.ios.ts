@@ -0,0 +1,238 @@
+import { LLMSession } from "../LLMSession";
+import { mockNativeModule } from "../testing";
+import { defineTool } from "../tools";
+
+jest.mock("../AppleFoundationModelsModule.ios");
+
+beforeEach(() => mockNativeModule.reset());
+
+describe("LLMSession", () => {
+	it("keeps the native session id across turns", async () => {
+		const session = await LLMSession.create({ instructions: "Be concise." });
+		mockNativeModule.queueResponse("Hello");
+		mockNativeModule.queueResponse("Again");
+		expect(await session.ask({ prompt: "Hi" })).toBe("Hello");
+		await session.ask({ prompt: "Once more" });
+
+		const [first, second] = mockNativeModule.callsTo("generateText");
+		expect(first.options).toMatchObject({
+			prompt: "Hi",
+			system: "Be concise.",
+		});
+		expect(second.options).toMatchObject({ sessionId: session.sessionId });
+		expect(
+			session.exportTranscript().turns.map((turn) => turn.content),
+		).toEqual(["Hi", "Hello", "Once more", "Again"]);
+	});
+
+	it("reports usage and finish reason in lastMetadata", async () => {
+		const session = await LLMSession.create();
+		mockNativeModule.queueResponse({
+			text: "Done",
+			promptTokens: 3,
+			completionTokens: 1,
+		});
+		await session.ask({ prompt: "Hi" });
+		expect(session.lastMetadata).toMatchObject({
+			usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 },
+			finishReason: "stop",
+		});
+	});
+
+	it("sums usage over every turn of a tool loop", async () => {
+		const weather = defineTool({
+			name: "weather",
+			description: "Current weather",
+			parameters: { type: "object", properties: {} },
+			execute: () => "sunny",
+		});
+		const session = await LLMSession.create({ tools: [weather] });
+		mockNativeModule.queueResponse({
+			text: '{"tool":"weather","arguments":{}}',
+			promptTokens: 10,
+			completionTokens: 5,
+		});
+		mockNativeModule.queueResponse({
+			text: "It is sunny.",
+			promptTokens: 20,
+			completionTokens: 4,
+		});
+		await session.ask({ prompt: "Weather?" });
+		expect(session.lastMetadata?.usage).toEqual({
+			promptTokens: 30,
+			completionTokens: 9,
+			totalTokens: 39,
+			estimated: false,
+		});
+	});
+
+	it("reports a guardrail violation from its error code", async () => {
+		const session = await LLMSession.create();
+		mockNativeModule.queueError({
+			code: "ERR_TEXT_GENERATION_GUARDRAIL",
+			message: "Blocked",
+		});
+		await expect(session.ask({ prompt: "Hi" })).rejects.toMatchObject({
+			code: "ERR_TEXT_GENERATION_GUARDRAIL",
+		});
+		expect(session.lastMetadata?.finishReason).toBe("guardrail");
+	});
+
+	it("rejects empty prompts", async () => {
+		const session = await LLMSession.create();
+		await expect(session.ask({ prompt: "  " })).rejects.toMatchObject({
+			code: "ERR_TEXT_PROMPT_INVALID",
+		});
+	});
+
+	it("normalizes native errors and records nothing", async () => {
+		const session = await LLMSession.create();
+		mockNativeModule.queueError({
+			code: "ERR_TEXT_GENERATION_RUNTIME",
+			message: "Boom",
+		});
+		await expect(session.ask({ prompt: "Hi" })).rejects.toMatchObject({
+			code: "ERR_TEXT_GENERATION_RUNTIME",
+		});
+		expect(session.exportTranscript().turns).toEqual([]);
+	});
+
+	it("cancels when the signal aborts", async () => {
+		const session = await LLMSession.create();
+		const controller = new AbortController();
+		mockNativeModule.queueResponse({ text: "Late", delayMs: 50 });
+		const pending = session.ask({ prompt: "Hi", signal: controller.signal });
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		controller.abort();
+		await expect(pending).rejects.toMatchObject({
+			code: "ERR_TEXT_GENERATION_CANCELED",
+		});
+		expect(mockNativeModule.callsTo("cancelRequest")).toHaveLength(1);
+	});
+
+	it("starts the next call only once a canceled one has stopped", async () => {
+		const session = await LLMSession.create();
+		const controller = new AbortController();
+		mockNativeModule.queueResponse({ text: "Late", delayMs: 40 });
+		const first = session.ask({ prompt: "1", signal: controller.signal });
+		const second = session.ask({ prompt: "2" });
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		controller.abort();
+		await expect(first).rejects.toMatchObject({
+			code: "ERR_TEXT_GENERATION_CANCELED",
+		});
+		expect(mockNativeModule.callsTo("generateText")).toHaveLength(1);
+		await second;
+		expect(mockNativeModule.callsTo("generateText")).toHaveLength(2);
+	});
+
+	it("streams deltas and records the streamed turn", async () => {
+		const session = await LLMSession.create();
+		mockNativeModule.queueResponse("one two three");
+		const stream = session.streamAsk({ prompt: "Count" });
+		const deltas: string[] = [];
+		for await (const chunk of stream) deltas.push(chunk.delta);
+		expect(deltas.join("")).toBe("one two three");
+		expect((await stream.result).text).toBe("one two three");
+		expect(session.exportTranscript().turns).toHaveLength(2);
+	});
+
+	it("ignores a streamed result that arrives after a timeout", async () => {
+		const session = await LLMSession.create();
+		mockNativeModule.queueResponse({ text: "Late", delayMs: 30 });
+		const stream = session.streamAsk({ prompt: "Hi", timeoutMs: 10 });
+		await expect(stream.result).rejects.toMatchObject({
+			code: "ERR_TEXT_GENERATION_TIMEOUT",
+		});
+		await new Promise((resolve) => setTimeout(resolve, 40));
+		expect(session.sessionId).toBeUndefined();
+		expect(session.exportTranscript().turns).toEqual([]);
+	});
+
+	it("runs overlapping calls one at a time", async () => {
+		const session = await LLMSession.create();
+		mockNativeModule.queueResponse({ text: "First", delayMs: 20 });
+		mockNativeModule.queueResponse("Second");
+		const first = session.ask({ prompt: "1" });
+		const second = session.ask({ prompt: "2" });
+		expect(session.queueState).toEqual({ running: true, pending: 1 });
+		expect(await Promise.all([first, second])).toEqual(["First", "Second"]);
+		expect(
+			session.exportTranscript().turns.map((turn) => turn.content),
+		).toEqual(["1", "First", "2", "Second"]);
+	});
+
+	it("restores a saved transcript before the next request", async () => {
+		const source = await LLMSession.create({ instructions: "Be brief." });
+		mockNativeModule.queueResponse("Paris");
+		await source.ask({ prompt: "Capital of France?" });
+
+		const restored = await LLMSession.fromTranscript(
+			JSON.parse(JSON.stringify(source.exportTranscript())),
+		);
+		await restored.ask({ prompt: "And Italy?" });
+		const [restore] = mockNativeModule.callsTo("restoreSession");
+		expect(restore.options).toMatchObject({
+			system: "Be brief.",
+			turns: [
+				{ role: "user", content: "Capital of France?" },
+				{ role: "assistant", content: "Paris" },
+			],
+		});
+	});
+
+	it("rejects unsupported transcript versions", async () => {
+		await expect(
+			LLMSession.fromTranscript({ version: 2, turns: [] } as never),
+		).rejects.toMatchObject({ code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT" });
+	});
+
+	it("drops the oldest turns when the context would overflow", async () => {
+		const session = await LLMSession.create({
+			contextWindow: 200,
+			contextStrategy: "dropOldest",
+		});
+		for (const prompt of ["a".repeat(400), "b".repeat(400), "c"]) {
+			mockNativeModule.queueResponse("ok");
+			await session.ask({ prompt, maxOutputTokens: 10 });
+		}
+		const contents = session
+			.exportTranscript()
+			.turns.map((turn) => turn.content[0]);
+		expect(contents).toEqual(["b", "o", "c", "o"]);
+	});
+
+	it("summarizes older turns and releases the summary's session", async () => {
+		const session = await LLMSession.create({
+			contextWindow: 400,
+			contextStrategy: "summarize",
+		});
+		for (const prompt of ["a", "b", "c"]) {
+			mockNativeModule.queueResponse("x".repeat(600));
+			await session.ask({ prompt, maxOutputTokens: 10 });
+		}
+		mockNativeModule.queueResponse("Summary");
+		await session.ask({ prompt: "d", maxOutputTokens: 10 });
+
+		expect(session.exportTranscript().summary).toBe("Summary");
+		// The conversation is mock-session-1; the summary got its own session
+		expect(
+			mockNativeModule.callsTo("releaseSession").map((call) => call.options),
+		).toEqual(["mock-session-2"]);
+	});
+
+	it("releases the native session on release() and destroy()", async () => {
+		const session = await LLMSession.create();
+		await session.ask({ prompt: "Hi" });
+		const id = session.sessionId;
+		session.release();
+		await session.ask({ prompt: "Again" });
+		expect(mockNativeModule.callsTo("restoreSession")).toHaveLength(1);
+		session.destroy();
+		await Promise.resolve();
+		expect(
+			mockNativeModule.callsTo("releaseSession").map((call) => call.options),
+		).toEqual([id, id]);
+		expect(session.sessionId).toBeUndefined();
+	});
+});
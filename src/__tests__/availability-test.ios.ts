@@ -0,0 +1,75 @@
+import { addAvailabilityListener } from "../availability";
+import { mockNativeModule } from "../testing";
+
+jest.mock("../AppleFoundationModelsModule.ios");
+
+beforeEach(() => mockNativeModule.reset());
+
+afterEach(() => {
+	jest.useRealTimers();
+	jest.restoreAllMocks();
+});
+
+const notReady = {
+	status: "unavailable",
+	reasonCode: "modelNotReady",
+} as const;
+
+// Let the listener's initial availability check settle
+async function settle(): Promise<void> {
+	for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+describe("addAvailabilityListener", () => {
+	it("reports changes from the native event", async () => {
+		const listener = jest.fn();
+		const subscription = addAvailabilityListener(listener);
+		await settle();
+		mockNativeModule.setAvailability(notReady);
+		mockNativeModule.setAvailability(notReady);
+		mockNativeModule.setAvailability({ status: "available" });
+		subscription.remove();
+		expect(listener.mock.calls).toEqual([
+			[notReady],
+			[{ status: "available" }],
+		]);
+	});
+
+	it("stops calling a listener once it is removed", async () => {
+		const listener = jest.fn();
+		const subscription = addAvailabilityListener(listener);
+		await settle();
+		subscription.remove();
+		mockNativeModule.setAvailability(notReady);
+		expect(listener).not.toHaveBeenCalled();
+	});
+
+	it("does not poll while the native event is available", async () => {
+		jest.useFakeTimers();
+		mockNativeModule.setAvailability(notReady);
+		const subscription = addAvailabilityListener(() => {});
+		await jest.advanceTimersByTimeAsync(60_000);
+		subscription.remove();
+		expect(mockNativeModule.callsTo("getTextModelAvailability")).toHaveLength(
+			1,
+		);
+	});
+
+	it("polls when the native module cannot emit the event", async () => {
+		jest.useFakeTimers();
+		jest.spyOn(mockNativeModule, "addListener").mockImplementation(() => {
+			throw new Error("Unknown event");
+		});
+		mockNativeModule.setAvailability(notReady);
+		const listener = jest.fn();
+		const subscription = addAvailabilityListener(listener);
+		await jest.advanceTimersByTimeAsync(0);
+		mockNativeModule.setAvailability({ status: "available" });
+		await jest.advanceTimersByTimeAsync(1000);
+		subscription.remove();
+		expect(mockNativeModule.callsTo("getTextModelAvailability")).toHaveLength(
+			2,
+		);
+		expect(listener).toHaveBeenCalledWith({ status: "available" });
+	});
+});
@@ -0,0 +1,91 @@
+import type { ChatMessage } from "../AppleFoundationModels.types";
+import {
+	activePath,
+	addMessage,
+	addReply,
+	branchesOf,
+	type ChatTree,
+	emptyTree,
+	pathTo,
+	ROOT,
+	removeMessage,
+	selectMessage,
+	treeFromTurns,
+} from "../chatTree";
+
+function message(id: string, role: ChatMessage["role"]): ChatMessage {
+	return { id, role, content: id, timestamp: "2026-01-01T00:00:00.000Z" };
+}
+
+function ids(tree: ChatTree): string[] {
+	return activePath(tree).map((m) => m.id);
+}
+
+describe("chatTree", () => {
+	it("builds a single branch from turns", () => {
+		const tree = treeFromTurns([
+			{ role: "user", content: "Hi", timestamp: "t" },
+			{ role: "assistant", content: "Hello", timestamp: "t" },
+		]);
+		expect(activePath(tree).map((m) => m.content)).toEqual(["Hi", "Hello"]);
+	});
+
+	it("moves prompts queued behind a prompt under its reply", () => {
+		let tree = addMessage(emptyTree, ROOT, message("q1", "user"));
+		tree = addMessage(tree, "q1", message("q2", "user"));
+		tree = addReply(tree, "q1", message("a1", "assistant"));
+		expect(ids(tree)).toEqual(["q1", "a1", "q2"]);
+		expect(tree.children.q1).toEqual(["a1"]);
+		expect(pathTo(tree, "q2").map((m) => m.id)).toEqual(["q1", "a1", "q2"]);
+	});
+
+	it("keeps other answers as siblings when adding a reply", () => {
+		let tree = addMessage(emptyTree, ROOT, message("q1", "user"));
+		tree = addReply(tree, "q1", message("a1", "assistant"));
+		tree = addReply(tree, "q1", message("a2", "assistant"));
+		expect(ids(tree)).toEqual(["q1", "a2"]);
+		expect(tree.children.q1).toEqual(["a1", "a2"]);
+	});
+
+	it("removes a message and lets its children take its place", () => {
+		let tree = addMessage(emptyTree, ROOT, message("q1", "user"));
+		tree = addReply(tree, "q1", message("a1", "assistant"));
+		tree = addMessage(tree, "a1", message("q2", "user"));
+		tree = removeMessage(tree, "a1");
+		expect(ids(tree)).toEqual(["q1", "q2"]);
+		expect(tree.nodes.a1).toBeUndefined();
+		expect(tree.children.a1).toBeUndefined();
+		expect(removeMessage(tree, "missing")).toBe(tree);
+	});
+
+	it("shows the newest sibling after removing the selected one", () => {
+		let tree = addMessage(emptyTree, ROOT, message("q1", "user"));
+		tree = addReply(tree, "q1", message("a1", "assistant"));
+		tree = addReply(tree, "q1", message("a2", "assistant"));
+		tree = selectMessage(tree, "a1");
+		tree = removeMessage(tree, "a1");
+		expect(ids(tree)).toEqual(["q1", "a2"]);
+	});
+
+	it("lists branches and switches between them", () => {
+		let tree = addMessage(emptyTree, ROOT, message("q1", "user"));
+		tree = addReply(tree, "q1", message("a1", "assistant"));
+		tree = addMessage(tree, "a1", message("q2", "user"));
+		tree = addMessage(tree, ROOT, message("q1-edit", "user"));
+		tree = addReply(tree, "q1-edit", message("a1-edit", "assistant"));
+
+		expect(ids(tree)).toEqual(["q1-edit", "a1-edit"]);
+		expect(branchesOf(tree, activePath(tree))).toEqual({
+			"q1-edit": { index: 1, ids: ["q1", "q1-edit"] },
+			"a1-edit": { index: 0, ids: ["a1-edit"] },
+		});
+
+		tree = selectMessage(tree, "q2");
+		expect(ids(tree)).toEqual(["q1", "a1", "q2"]);
+		expect(branchesOf(tree, activePath(tree)).q1).toEqual({
+			index: 0,
+			ids: ["q1", "q1-edit"],
+		});
+		expect(selectMessage(tree, "missing")).toBe(tree);
+	});
+});
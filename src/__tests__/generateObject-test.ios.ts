@@ -0,0 +1,148 @@
+import {
+	generateObject,
+	isObjectGenerationError,
+	isTextGenerationError,
+} from "..";
+import { mockNativeModule } from "../testing";
+
+jest.mock("../AppleFoundationModelsModule.ios");
+
+beforeEach(() => mockNativeModule.reset());
+
+const schema = {
+	type: "object",
+	properties: {
+		name: { type: "string" },
+		age: { type: "integer", minimum: 0 },
+	},
+	required: ["name", "age"],
+} as const;
+
+describe("generateObject", () => {
+	it("decodes and validates the native output", async () => {
+		mockNativeModule.queueResponse('{"name":"Ada","age":36}');
+		const result = await generateObject({ prompt: "Ada", schema });
+		expect(result.object).toEqual({ name: "Ada", age: 36 });
+		expect(result.attempts).toBe(1);
+		expect(mockNativeModule.callsTo("generateObject")[0].options).toMatchObject(
+			{ prompt: "Ada", schema: JSON.stringify(schema) },
+		);
+	});
+
+	it("extracts JSON wrapped in prose", async () => {
+		mockNativeModule.queueResponse(
+			'Sure! ```json\n{"name":"Ada","age":36}\n``` Anything else?',
+		);
+		const result = await generateObject({ prompt: "Ada", schema });
+		expect(result.object).toEqual({ name: "Ada", age: 36 });
+	});
+
+	it("skips bracketed prose before the JSON object", async () => {
+		mockNativeModule.queueResponse(
+			'See note [1]. Result: {"name":"Ada","age":36}',
+		);
+		const result = await generateObject({ prompt: "Ada", schema });
+		expect(result.object).toEqual({ name: "Ada", age: 36 });
+	});
+
+	it("reports schema issues when decoding fails", async () => {
+		mockNativeModule.queueResponse('{"name":"Ada","age":-1}');
+		const error = await generateObject({ prompt: "Ada", schema }).catch(
+			(e: unknown) => e,
+		);
+		expect(isObjectGenerationError(error)).toBe(true);
+		expect(error).toMatchObject({
+			code: "ERR_OBJECT_GENERATION_DECODE_FAILED",
+			output: '{"name":"Ada","age":-1}',
+			issues: [expect.objectContaining({ path: "/age" })],
+		});
+	});
+
+	it("repairs a bad output on the same session", async () => {
+		mockNativeModule.queueResponse('{"name":"Ada"}');
+		mockNativeModule.queueResponse('{"name":"Ada","age":36}');
+		const result = await generateObject({
+			prompt: "Ada",
+			schema,
+			maxRepairAttempts: 1,
+		});
+		expect(result.object).toEqual({ name: "Ada", age: 36 });
+		expect(result.attempts).toBe(2);
+		// Estimated over both attempts: 14 + 23 characters of output
+		expect(result.usage).toMatchObject({
+			completionTokens: 10,
+			estimated: true,
+		});
+
+		const [first, repair] = mockNativeModule.callsTo("generateObject");
+		expect(repair.options).toMatchObject({
+			sessionId: result.sessionId,
+			prompt: expect.stringContaining('{"name":"Ada"}'),
+		});
+		expect(first.options).not.toHaveProperty("sessionId", result.sessionId);
+	});
+
+	it("falls back to text prompting when native generation is unsupported", async () => {
+		mockNativeModule.queueError({
+			code: "ERR_TEXT_GENERATION_UNSUPPORTED",
+			message: "Unsupported",
+		});
+		mockNativeModule.queueResponse('{"name":"Ada","age":36}');
+		const result = await generateObject({ prompt: "Ada", schema });
+		expect(result.object).toEqual({ name: "Ada", age: 36 });
+		expect(mockNativeModule.callsTo("generateText")).toHaveLength(1);
+	});
+
+	it("rethrows other native failures", async () => {
+		mockNativeModule.queueError({
+			code: "ERR_OBJECT_GENERATION_RUNTIME",
+			message: "Boom",
+		});
+		await expect(
+			generateObject({ prompt: "Ada", schema }),
+		).rejects.toMatchObject({ code: "ERR_OBJECT_GENERATION_RUNTIME" });
+		expect(mockNativeModule.callsTo("generateText")).toHaveLength(0);
+	});
+
+	it("keeps a typed text error as the cause of a native failure", async () => {
+		mockNativeModule.queueError({
+			code: "ERR_TEXT_GENERATION_CONTEXT_OVERFLOW",
+			message: "Too long",
+		});
+		const error = await generateObject({ prompt: "Ada", schema }).catch(
+			(e: unknown) => e,
+		);
+		expect(error).toMatchObject({
+			code: "ERR_OBJECT_GENERATION_RUNTIME",
+			message: "Too long",
+		});
+		const { cause } = error as { cause: unknown };
+		expect(isTextGenerationError(cause)).toBe(true);
+		expect(cause).toMatchObject({
+			code: "ERR_TEXT_GENERATION_CONTEXT_OVERFLOW",
+		});
+	});
+
+	it("gives up after maxRepairAttempts", async () => {
+		mockNativeModule.queueResponse("not json");
+		mockNativeModule.queueResponse("still not json");
+		await expect(
+			generateObject({ prompt: "Ada", schema, maxRepairAttempts: 1 }),
+		).rejects.toMatchObject({ code: "ERR_OBJECT_GENERATION_DECODE_FAILED" });
+		expect(mockNativeModule.callsTo("generateObject")).toHaveLength(2);
+	});
+
+	it("passes cancellation through unchanged", async () => {
+		const controller = new AbortController();
+		controller.abort();
+		await expect(
+			generateObject({ prompt: "Ada", schema, signal: controller.signal }),
+		).rejects.toMatchObject({ code: "ERR_TEXT_GENERATION_CANCELED" });
+	});
+
+	it("rejects empty prompts", async () => {
+		await expect(generateObject({ prompt: " ", schema })).rejects.toMatchObject(
+			{ code: "ERR_OBJECT_PROMPT_INVALID" },
+		);
+	});
+});
@@ -0,0 +1,57 @@
+import { extractJSON } from "../jsonExtract";
+
+describe("extractJSON", () => {
+	it("parses plain JSON", () => {
+		expect(extractJSON(' {"a": 1} ')).toEqual({ a: 1 });
+	});
+
+	it("reads fenced output", () => {
+		expect(extractJSON('Here you go:\n```json\n{"a": 1}\n```\nDone.')).toEqual({
+			a: 1,
+		});
+		expect(extractJSON("```\n[1, 2]\n```")).toEqual([1, 2]);
+	});
+
+	it("skips prose and trailing remarks", () => {
+		expect(extractJSON('Sure! {"a": {"b": 2}} Hope that helps.')).toEqual({
+			a: { b: 2 },
+		});
+	});
+
+	it("prefers a value of the expected type over bracketed prose", () => {
+		const text = 'See note [1]. Result: {"a": 2}';
+		expect(extractJSON(text, { expect: "object" })).toEqual({ a: 2 });
+		expect(extractJSON(text)).toEqual([1]);
+	});
+
+	it("accepts top-level arrays", () => {
+		expect(
+			extractJSON('Items: [{"a": 1}, {"a": 2}]', { expect: "array" }),
+		).toEqual([{ a: 1 }, { a: 2 }]);
+		expect(extractJSON('{"note": true} then [3]', { expect: "array" })).toEqual(
+			[3],
+		);
+	});
+
+	it("falls back to the first value when none has the expected type", () => {
+		expect(extractJSON("Answer: [1, 2]", { expect: "object" })).toEqual([1, 2]);
+	});
+
+	it("drops trailing commas outside of strings", () => {
+		expect(extractJSON('{"a": [1, 2,], "b": "x,}",}')).toEqual({
+			a: [1, 2],
+			b: "x,}",
+		});
+	});
+
+	it("requires the whole output in strict mode", () => {
+		expect(extractJSON(' {"a": 1}\n', { strict: true })).toEqual({ a: 1 });
+		expect(() => extractJSON('Sure! {"a": 1}', { strict: true })).toThrow(
+			SyntaxError,
+		);
+	});
+
+	it("throws when there is no JSON", () => {
+		expect(() => extractJSON("No idea.")).toThrow(SyntaxError);
+	});
+});
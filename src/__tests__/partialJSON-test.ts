@@ -0,0 +1,41 @@
+import { parsePartialJSON } from "../partialJSON";
+
+describe("parsePartialJSON", () => {
+	it("parses complete documents", () => {
+		expect(parsePartialJSON('{"a": [1, true, null], "b": "x"}')).toEqual({
+			a: [1, true, null],
+			b: "x",
+		});
+	});
+
+	it("closes unterminated objects and arrays", () => {
+		expect(parsePartialJSON('{"items": [{"id": 1}, {"id": 2')).toEqual({
+			items: [{ id: 1 }, {}],
+		});
+	});
+
+	it("cuts strings at the last complete character", () => {
+		expect(parsePartialJSON('{"name": "Ad')).toEqual({ name: "Ad" });
+		expect(parsePartialJSON('["caf\\u00')).toEqual(["caf"]);
+		expect(parsePartialJSON('["caf\\u00e9')).toEqual(["café"]);
+		expect(parsePartialJSON('["a\\')).toEqual(["a"]);
+	});
+
+	it("leaves out keys and scalars still being written", () => {
+		expect(parsePartialJSON('{"name": "Ada", "ag')).toEqual({ name: "Ada" });
+		expect(parsePartialJSON('{"age": 3')).toEqual({});
+		expect(parsePartialJSON('{"age": 36')).toEqual({});
+		expect(parsePartialJSON('{"age": 36,')).toEqual({ age: 36 });
+		expect(parsePartialJSON("[1, 2, tr")).toEqual([1, 2]);
+		expect(parsePartialJSON('{"a":')).toEqual({});
+	});
+
+	it("returns undefined before a value starts or for invalid JSON", () => {
+		expect(parsePartialJSON("")).toBeUndefined();
+		expect(parsePartialJSON("  ")).toBeUndefined();
+		expect(parsePartialJSON("12")).toBeUndefined();
+		expect(parsePartialJSON("{name: 1}")).toBeUndefined();
+		expect(parsePartialJSON('{"a" 1}')).toBeUndefined();
+		expect(parsePartialJSON("[1, nope]")).toBeUndefined();
+	});
+});
@@ -0,0 +1,104 @@
+import { definePrompt } from "../prompt";
+
+describe("definePrompt", () => {
+	const summarize = definePrompt({
+		instructions: "You summarize support tickets.",
+		template: "Summarize in {{sentences}} sentences: {{ticket}}",
+	});
+
+	it("lists the template's variables", () => {
+		expect(summarize.variables).toEqual(["sentences", "ticket"]);
+	});
+
+	it("fences string values and inserts others as they are", () => {
+		const { instructions, prompt } = summarize.render({
+			sentences: 2,
+			ticket: "App crashes",
+		});
+		expect(prompt).toBe("Summarize in 2 sentences: \n```\nApp crashes\n```");
+		expect(instructions).toMatch(/^You summarize support tickets\.\n\n/);
+		expect(instructions).toContain("inside code fences");
+	});
+
+	it("fences values containing backticks with a longer fence", () => {
+		const { prompt } = summarize.render({
+			sentences: 1,
+			ticket: "Run ```rm -rf``` and `ls`",
+		});
+		expect(prompt).toBe(
+			"Summarize in 1 sentences: \n````\nRun ```rm -rf``` and `ls`\n````",
+		);
+	});
+
+	it("rejects missing variables", () => {
+		expect(() =>
+			summarize.render({ sentences: 2 } as {
+				sentences: number;
+				ticket: string;
+			}),
+		).toThrow(
+			expect.objectContaining({
+				code: "ERR_TEXT_PROMPT_INVALID",
+				message: "Missing prompt variables: ticket.",
+			}),
+		);
+	});
+
+	it("rejects extra variables", () => {
+		expect(() =>
+			summarize.render({
+				sentences: 2,
+				ticket: "App crashes",
+				tone: "polite",
+			} as { sentences: number; ticket: string }),
+		).toThrow(
+			expect.objectContaining({
+				code: "ERR_TEXT_PROMPT_INVALID",
+				message: "Unknown prompt variables: tone.",
+			}),
+		);
+	});
+
+	it("adds examples to the instructions", () => {
+		const triage = definePrompt({
+			template: "Classify: {{ticket}}",
+			examples: [
+				{ input: { ticket: "Crash on launch" }, output: { bug: true } },
+				{ input: { ticket: "Love it" }, output: "praise" },
+			],
+		});
+		expect(triage.render({ ticket: "Slow" }).instructions).toContain(
+			[
+				"Examples:",
+				"",
+				"Input:\nClassify: \n```\nCrash on launch\n```\n",
+				'Output:\n{"bug":true}',
+				"",
+				"Input:\nClassify: \n```\nLove it\n```\n",
+				"Output:\npraise",
+			].join("\n"),
+		);
+	});
+
+	it("rejects examples that do not match the template", () => {
+		expect(() =>
+			definePrompt({
+				template: "Classify: {{ticket}}",
+				examples: [{ input: {} as { ticket: string }, output: "bug" }],
+			}),
+		).toThrow(
+			expect.objectContaining({
+				code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT",
+				message: "Prompt example 1: Missing prompt variables: ticket.",
+			}),
+		);
+	});
+
+	it("rejects placeholders in the instructions", () => {
+		expect(() =>
+			definePrompt({ instructions: "Be {{tone}}.", template: "Hi" }),
+		).toThrow(
+			expect.objectContaining({ code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT" }),
+		);
+	});
+});
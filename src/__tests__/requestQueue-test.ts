@@ -0,0 +1,101 @@
+import { RequestQueue } from "../requestQueue";
+
+function deferred<T = void>() {
+	let resolve!: (value: T) => void;
+	const promise = new Promise<T>((r) => {
+		resolve = r;
+	});
+	return { promise, resolve };
+}
+
+describe("RequestQueue", () => {
+	it("runs queued tasks one at a time in call order", async () => {
+		const queue = new RequestQueue("queue");
+		const order: string[] = [];
+		const first = deferred();
+		const a = queue.run(async () => {
+			order.push("a:start");
+			await first.promise;
+			order.push("a:end");
+		});
+		const b = queue.run(async () => {
+			order.push("b");
+		});
+		expect(queue.state).toEqual({ running: true, pending: 1 });
+		first.resolve();
+		await Promise.all([a, b]);
+		expect(order).toEqual(["a:start", "a:end", "b"]);
+		expect(queue.state).toEqual({ running: false, pending: 0 });
+	});
+
+	it("rejects calls made while busy in reject mode", async () => {
+		const queue = new RequestQueue("reject");
+		const first = deferred();
+		const a = queue.run(() => first.promise);
+		await expect(queue.run(async () => "b")).rejects.toMatchObject({
+			code: "ERR_TEXT_GENERATION_BUSY",
+		});
+		first.resolve();
+		await a;
+	});
+
+	it("replaces the waiting call in replace mode", async () => {
+		const queue = new RequestQueue("replace");
+		const first = deferred();
+		const a = queue.run(() => first.promise);
+		const b = queue.run(async () => "b");
+		const c = queue.run(async () => "c");
+		await expect(b).rejects.toMatchObject({
+			code: "ERR_TEXT_GENERATION_BUSY",
+		});
+		first.resolve();
+		await a;
+		await expect(c).resolves.toBe("c");
+	});
+
+	it("drops a waiting call whose signal aborts", async () => {
+		const queue = new RequestQueue("queue");
+		const first = deferred();
+		const a = queue.run(() => first.promise);
+		const controller = new AbortController();
+		const task = jest.fn(async () => "b");
+		const b = queue.run(task, controller.signal);
+		controller.abort();
+		await expect(b).rejects.toMatchObject({
+			code: "ERR_TEXT_GENERATION_CANCELED",
+		});
+		expect(queue.state.pending).toBe(0);
+		first.resolve();
+		await a;
+		expect(task).not.toHaveBeenCalled();
+	});
+
+	it("keeps the slot until a tracked request settles", async () => {
+		const queue = new RequestQueue("queue");
+		const native = deferred();
+		const task = jest.fn(async () => "b");
+		const a = queue.run(async (track) => {
+			track(native.promise);
+			throw new Error("gave up");
+		});
+		const b = queue.run(task);
+		await expect(a).rejects.toThrow("gave up");
+		expect(task).not.toHaveBeenCalled();
+		expect(queue.state).toEqual({ running: true, pending: 1 });
+		native.resolve();
+		await expect(b).resolves.toBe("b");
+	});
+
+	it("notifies listeners of state changes", async () => {
+		const queue = new RequestQueue("queue");
+		const states: unknown[] = [];
+		const remove = queue.addListener((state) => states.push(state));
+		await queue.run(async () => {});
+		remove();
+		await queue.run(async () => {});
+		expect(states).toEqual([
+			{ running: true, pending: 0 },
+			{ running: false, pending: 0 },
+		]);
+	});
+});
@@ -0,0 +1,82 @@
+import { SessionRegistry } from "../sessionRegistry";
+import { mockNativeModule } from "../testing";
+
+jest.mock("../AppleFoundationModelsModule.ios");
+
+beforeEach(() => mockNativeModule.reset());
+
+function released(): unknown[] {
+	return mockNativeModule.callsTo("releaseSession").map((call) => call.options);
+}
+
+describe("SessionRegistry", () => {
+	it("releases the least recently used idle session over maxSessions", async () => {
+		const registry = new SessionRegistry({ maxSessions: 2 });
+		const a = await registry.create();
+		const b = await registry.create();
+		const c = await registry.create();
+		await a.ask({ prompt: "a" });
+		const aId = a.sessionId;
+		await b.ask({ prompt: "b" });
+		await c.ask({ prompt: "c" });
+
+		expect(released()).toEqual([aId]);
+		const order = registry
+			.list()
+			.map((entry) => [[a, b, c].indexOf(entry.session), entry.released]);
+		expect(order).toEqual([
+			[2, false],
+			[1, false],
+			[0, true],
+		]);
+	});
+
+	it("rebuilds a released session when it is used again", async () => {
+		const registry = new SessionRegistry({ maxSessions: 1 });
+		const a = await registry.create();
+		const b = await registry.create();
+		await a.ask({ prompt: "a" });
+		await b.ask({ prompt: "b" });
+		await a.ask({ prompt: "again" });
+
+		const [restore] = mockNativeModule.callsTo("restoreSession");
+		expect(restore.options).toMatchObject({
+			turns: [{ content: "a" }, { content: "Mock response" }],
+		});
+		expect(registry.list()[0]).toMatchObject({ session: a, released: false });
+		registry.clear();
+	});
+
+	it("never evicts a busy session", async () => {
+		const registry = new SessionRegistry({ maxSessions: 1 });
+		const a = await registry.create();
+		const b = await registry.create();
+		await a.ask({ prompt: "a" });
+		mockNativeModule.queueResponse({ text: "slow", delayMs: 30 });
+		const pending = a.ask({ prompt: "slow" });
+		await b.ask({ prompt: "b" });
+		expect(released()).not.toContain(a.sessionId);
+		await pending;
+		registry.clear();
+	});
+
+	it("releases sessions idle for idleTimeoutMs", async () => {
+		const registry = new SessionRegistry({ idleTimeoutMs: 20 });
+		const a = await registry.create();
+		await a.ask({ prompt: "a" });
+		const id = a.sessionId;
+		await new Promise((resolve) => setTimeout(resolve, 40));
+		expect(released()).toEqual([id]);
+		expect(registry.list()[0].released).toBe(true);
+		registry.clear();
+	});
+
+	it("destroys sessions on remove()", async () => {
+		const registry = new SessionRegistry();
+		const a = await registry.create();
+		await a.ask({ prompt: "a" });
+		registry.remove(a);
+		expect(registry.size).toBe(0);
+		expect(a.sessionId).toBeUndefined();
+	});
+});
@@ -0,0 +1,221 @@
+import { z as z3 } from "zod/v3";
+import { z as z4 } from "zod/v4";
+
+import {
+	normalizeJSONSchema,
+	type StandardSchemaV1,
+	standardSchemaToJSONSchema,
+	validateWithStandardSchema,
+} from "../standardSchema";
+
+enum Mixed {
+	Text = "text",
+	Count = 1,
+}
+
+// Both versions share the builder API used here
+describe.each([
+	["v3", z3 as unknown as typeof z4],
+	["v4", z4],
+])("standardSchemaToJSONSchema with Zod %s", (_version, z) => {
+	const convert = (schema: unknown) =>
+		standardSchemaToJSONSchema(schema as StandardSchemaV1);
+
+	it("converts objects with optional, nullable and default fields", () => {
+		const schema = z
+			.object({
+				name: z.string().min(1).describe("Full name"),
+				age: z.number().int().max(150).optional(),
+				nickname: z.string().nullable(),
+				role: z.enum(["admin", "user"]).default("user"),
+			})
+			.strict();
+		expect(convert(schema)).toEqual({
+			type: "object",
+			properties: {
+				name: { type: "string", minLength: 1, description: "Full name" },
+				age: { type: "integer", maximum: 150 },
+				nickname: { type: "string", nullable: true },
+				role: { type: "string", enum: ["admin", "user"], default: "user" },
+			},
+			required: ["name", "nickname"],
+			additionalProperties: false,
+		});
+	});
+
+	it("converts arrays and unions", () => {
+		const schema = z.object({
+			tags: z.array(z.string()).min(1).max(3),
+			value: z.union([z.string(), z.number()]),
+			flag: z.literal(true),
+		});
+		expect(convert(schema)).toEqual({
+			type: "object",
+			properties: {
+				tags: {
+					type: "array",
+					items: { type: "string" },
+					minItems: 1,
+					maxItems: 3,
+				},
+				value: { anyOf: [{ type: "string" }, { type: "number" }] },
+				flag: { const: true },
+			},
+			required: ["tags", "value", "flag"],
+		});
+	});
+
+	it("converts discriminated unions", () => {
+		const schema = z.discriminatedUnion("kind", [
+			z.object({ kind: z.literal("a"), a: z.string() }),
+			z.object({ kind: z.literal("b"), b: z.number() }),
+		]);
+		expect(convert(schema)).toMatchObject({
+			oneOf: [
+				{ properties: { kind: { const: "a" } } },
+				{ properties: { kind: { const: "b" } } },
+			],
+			discriminator: { propertyName: "kind" },
+		});
+	});
+
+	it("uses the input side of pipes and transforms", () => {
+		expect(convert(z.string().pipe(z.string().min(2)))).toEqual({
+			type: "string",
+		});
+		expect(convert(z.string().transform((s) => s.length))).toEqual({
+			type: "string",
+		});
+	});
+
+	it("derives the enum type from its values", () => {
+		expect(convert(z.nativeEnum(Mixed))).toEqual({
+			anyOf: [
+				{ type: "string", enum: ["text"] },
+				{ type: "number", enum: [1] },
+			],
+		});
+	});
+
+	it.each([
+		["string formats", () => z.string().email()],
+		["exclusive bounds", () => z.number().gt(1)],
+		["records", () => z.record(z.string(), z.string())],
+		["any values", () => z.object({ value: z.any() })],
+	])("rejects %s with ERR_OBJECT_SCHEMA_INVALID", (_name, build) => {
+		expect(() => convert(build())).toThrow(
+			expect.objectContaining({ code: "ERR_OBJECT_SCHEMA_INVALID" }),
+		);
+	});
+});
+
+describe("standardSchemaToJSONSchema", () => {
+	const foreign = (extra: object): StandardSchemaV1 => ({
+		"~standard": {
+			version: 1,
+			vendor: "other",
+			validate: (value) => ({ value }),
+		},
+		...extra,
+	});
+
+	it("normalizes a schema's own JSON Schema export", () => {
+		const schema = foreign({
+			toJSONSchema: () => ({
+				$schema: "http://json-schema.org/draft-07/schema#",
+				type: "object",
+				properties: {
+					item: { $ref: "#/definitions/Item" },
+					note: { type: ["string", "null"] },
+					level: { enum: ["low", 2, null] },
+				},
+				definitions: { Item: { type: "string", format: "date", pattern: "^" } },
+			}),
+		});
+		expect(standardSchemaToJSONSchema(schema)).toEqual({
+			type: "object",
+			properties: {
+				item: { $ref: "#/$defs/Item" },
+				note: { type: "string", nullable: true },
+				level: {
+					nullable: true,
+					anyOf: [
+						{ type: "string", enum: ["low"] },
+						{ type: "number", enum: [2] },
+					],
+				},
+			},
+			$defs: { Item: { type: "string", pattern: "^" } },
+		});
+	});
+
+	it("rejects libraries it cannot convert", () => {
+		expect(() => standardSchemaToJSONSchema(foreign({}))).toThrow(
+			expect.objectContaining({ code: "ERR_OBJECT_SCHEMA_INVALID" }),
+		);
+	});
+});
+
+describe("normalizeJSONSchema", () => {
+	it.each([
+		["tuple items", { type: "array", items: [{ type: "string" }] }],
+		[
+			"record values",
+			{ type: "object", additionalProperties: { type: "string" } },
+		],
+		["unknown keywords", { type: "string", contentEncoding: "base64" }],
+		["multiple types", { type: ["string", "number"] }],
+	])("rejects %s with ERR_OBJECT_SCHEMA_INVALID", (_name, schema) => {
+		expect(() => normalizeJSONSchema(schema)).toThrow(
+			expect.objectContaining({ code: "ERR_OBJECT_SCHEMA_INVALID" }),
+		);
+	});
+});
+
+describe("validateWithStandardSchema", () => {
+	it("maps issue paths to JSON Pointers", async () => {
+		const schema = z4.object({
+			"a/b": z4.array(z4.object({ "c~d": z4.number() })),
+		});
+		const value = { "a/b": [{ "c~d": "x" }] };
+		const result = await validateWithStandardSchema(schema, value);
+		expect(result.issues).toEqual([
+			expect.objectContaining({
+				path: "/a~1b/0/c~0d",
+				keyword: "zod",
+				actual: "x",
+			}),
+		]);
+	});
+
+	it("accepts path segments given as objects", async () => {
+		const schema: StandardSchemaV1 = {
+			"~standard": {
+				version: 1,
+				vendor: "other",
+				validate: () => ({
+					issues: [{ message: "Too long", path: [{ key: "items" }, 1] }],
+				}),
+			},
+		};
+		const result = await validateWithStandardSchema(schema, {
+			items: ["a", "b"],
+		});
+		expect(result.issues).toEqual([
+			{
+				path: "/items/1",
+				keyword: "other",
+				expected: undefined,
+				actual: "b",
+				message: "/items/1: Too long",
+			},
+		]);
+	});
+
+	it("returns the parsed value on success", async () => {
+		const schema = z3.object({ n: z3.string().transform(Number) });
+		expect(await validateWithStandardSchema(schema, { n: "2" })).toEqual({
+			value: { n: 2 },
+		});
+	});
+});
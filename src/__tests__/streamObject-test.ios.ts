@@ -0,0 +1,36 @@
+import { streamObject } from "..";
+import { mockNativeModule } from "../testing";
+
+jest.mock("../AppleFoundationModelsModule.ios");
+
+beforeEach(() => mockNativeModule.reset());
+
+const schema = {
+	type: "object",
+	properties: {
+		name: { type: "string" },
+		age: { type: "integer" },
+	},
+	required: ["name", "age"],
+} as const;
+
+describe("streamObject", () => {
+	it("yields each new partial and the final object once", async () => {
+		mockNativeModule.queueResponse('{"name": "Ada", "age": 36}');
+		const stream = streamObject({ prompt: "Ada", schema });
+		const partials: unknown[] = [];
+		for await (const partial of stream) partials.push(partial);
+		expect(partials).toEqual([{}, { name: "Ada" }, { name: "Ada", age: 36 }]);
+		expect((await stream.result).object).toEqual({ name: "Ada", age: 36 });
+	});
+
+	it("fails both the iterator and result for an invalid prompt", async () => {
+		const stream = streamObject({ prompt: " ", schema });
+		await expect(stream[Symbol.asyncIterator]().next()).rejects.toMatchObject({
+			code: "ERR_OBJECT_PROMPT_INVALID",
+		});
+		await expect(stream.result).rejects.toMatchObject({
+			code: "ERR_OBJECT_PROMPT_INVALID",
+		});
+	});
+});
@@ -0,0 +1,123 @@
+import { act, renderHook, waitFor } from "@testing-library/react-native";
+
+import { isObjectGenerationError, isTextGenerationError } from "../errors";
+import { mockNativeModule } from "../testing";
+import { useGenerateObject } from "../useGenerateObject";
+
+jest.mock("../AppleFoundationModelsModule.ios");
+
+beforeEach(() => mockNativeModule.reset());
+
+const schema = {
+	type: "object",
+	properties: { name: { type: "string" } },
+	required: ["name"],
+} as const;
+
+function renderGenerateObject() {
+	return renderHook(() => useGenerateObject({ schema }));
+}
+
+describe("useGenerateObject", () => {
+	it("stores the object of a submission", async () => {
+		const { result } = renderGenerateObject();
+		expect(result.current.status).toBe("idle");
+		mockNativeModule.queueResponse('{"name":"Ada"}');
+		await act(async () => {
+			expect(await result.current.submit("Ada")).toEqual({ name: "Ada" });
+		});
+		expect(result.current.status).toBe("success");
+		expect(result.current.object).toEqual({ name: "Ada" });
+		expect(result.current.result?.attempts).toBe(1);
+		expect(mockNativeModule.callsTo("generateObject")[0].options).toMatchObject(
+			{ prompt: "Ada" },
+		);
+	});
+
+	it("drops the response of a superseded submission", async () => {
+		const { result } = renderGenerateObject();
+		mockNativeModule.queueResponse({ text: '{"name":"Old"}', delayMs: 50 });
+		mockNativeModule.queueResponse('{"name":"New"}');
+		await act(async () => {
+			const first = result.current.submit("Old");
+			await waitFor(() =>
+				expect(mockNativeModule.callsTo("generateObject")).toHaveLength(1),
+			);
+			expect(await result.current.submit("New")).toEqual({ name: "New" });
+			expect(await first).toBeUndefined();
+			await new Promise((resolve) => setTimeout(resolve, 60));
+		});
+		expect(result.current.status).toBe("success");
+		expect(result.current.object).toEqual({ name: "New" });
+	});
+
+	it("returns to idle when canceled", async () => {
+		const { result } = renderGenerateObject();
+		mockNativeModule.queueResponse({ text: '{"name":"Ada"}', delayMs: 50 });
+		await act(async () => {
+			const pending = result.current.submit("Ada");
+			result.current.cancel();
+			expect(await pending).toBeUndefined();
+		});
+		expect(result.current.status).toBe("idle");
+		expect(result.current.object).toBeUndefined();
+		expect(result.current.error).toBeUndefined();
+	});
+
+	it("retries the last prompt", async () => {
+		const { result } = renderGenerateObject();
+		mockNativeModule.queueError({
+			code: "ERR_OBJECT_GENERATION_RUNTIME",
+			message: "Boom",
+		});
+		await act(async () => {
+			await expect(result.current.submit("Ada")).rejects.toMatchObject({
+				code: "ERR_OBJECT_GENERATION_RUNTIME",
+			});
+		});
+		expect(result.current.status).toBe("error");
+
+		mockNativeModule.queueResponse('{"name":"Ada"}');
+		await act(async () => {
+			expect(await result.current.retry()).toEqual({ name: "Ada" });
+		});
+		expect(result.current.status).toBe("success");
+		expect(result.current.error).toBeUndefined();
+		const [, retried] = mockNativeModule.callsTo("generateObject");
+		expect(retried.options).toMatchObject({ prompt: "Ada" });
+	});
+
+	it("rejects retry before any submission", async () => {
+		const { result } = renderGenerateObject();
+		await expect(result.current.retry()).rejects.toMatchObject({
+			code: "ERR_OBJECT_PROMPT_INVALID",
+		});
+	});
+
+	it("exposes decode failures as an ObjectGenerationError", async () => {
+		const { result } = renderGenerateObject();
+		mockNativeModule.queueResponse('{"age":36}');
+		await act(async () => {
+			await result.current.submit("Ada").catch(() => {});
+		});
+		expect(result.current.status).toBe("error");
+		expect(isObjectGenerationError(result.current.error)).toBe(true);
+		expect(result.current.error).toMatchObject({
+			code: "ERR_OBJECT_GENERATION_DECODE_FAILED",
+			output: '{"age":36}',
+		});
+	});
+
+	it("exposes timeouts as a TextGenerationError", async () => {
+		const { result } = renderHook(() =>
+			useGenerateObject({ schema, timeoutMs: 10 }),
+		);
+		mockNativeModule.queueResponse({ text: '{"name":"Ada"}', delayMs: 50 });
+		await act(async () => {
+			await result.current.submit("Ada").catch(() => {});
+		});
+		expect(result.current.status).toBe("error");
+		expect(isTextGenerationError(result.current.error)).toBe(true);
+		expect(result.current.error?.code).toBe("ERR_TEXT_GENERATION_TIMEOUT");
+	});
+});
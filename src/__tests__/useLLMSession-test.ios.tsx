@@ -0,0 +1,239 @@
+import { act, renderHook, waitFor } from "@testing-library/react-native";
+
+import { createMemoryStorage } from "../storage";
+import { mockNativeModule } from "../testing";
+import { useLLMSession } from "../useLLMSession";
+
+jest.mock("../AppleFoundationModelsModule.ios");
+
+beforeEach(() => mockNativeModule.reset());
+
+async function renderSession(params?: Parameters<typeof useLLMSession>[0]) {
+	const hook = renderHook(() => useLLMSession(params));
+	await waitFor(() => expect(hook.result.current.status).toBe("idle"));
+	return hook;
+}
+
+function contents(history: { content: string }[]): string[] {
+	return history.map((message) => message.content);
+}
+
+describe("useLLMSession", () => {
+	it("adds the prompt and reply to history", async () => {
+		const { result } = await renderSession();
+		mockNativeModule.queueResponse("Hello");
+		await act(async () => {
+			expect(await result.current.ask("Hi")).toBe("Hello");
+		});
+		expect(contents(result.current.history)).toEqual(["Hi", "Hello"]);
+		expect(result.current.status).toBe("idle");
+		expect(result.current.lastMetadata?.finishReason).toBe("stop");
+	});
+
+	it("reports unsupported when the model is unavailable", async () => {
+		mockNativeModule.setAvailability({
+			status: "unavailable",
+			reasonCode: "deviceNotEligible",
+		});
+		const { result } = renderHook(() => useLLMSession());
+		await waitFor(() => expect(result.current.status).toBe("unsupported"));
+		expect(result.current.isAvailable).toBe(false);
+	});
+
+	it("sets error when the request fails", async () => {
+		const { result } = await renderSession();
+		mockNativeModule.queueError({
+			code: "ERR_TEXT_GENERATION_RUNTIME",
+			message: "Boom",
+		});
+		await act(async () => {
+			await expect(result.current.ask("Hi")).rejects.toMatchObject({
+				code: "ERR_TEXT_GENERATION_RUNTIME",
+			});
+		});
+		expect(result.current.status).toBe("error");
+		expect(result.current.error?.code).toBe("ERR_TEXT_GENERATION_RUNTIME");
+	});
+
+	it("keeps regenerated answers as branches", async () => {
+		const { result } = await renderSession();
+		mockNativeModule.queueResponse("First");
+		mockNativeModule.queueResponse("Second");
+		await act(async () => {
+			await result.current.ask("Hi");
+		});
+		const first = result.current.history[1];
+		await act(async () => {
+			await result.current.regenerate();
+		});
+		expect(contents(result.current.history)).toEqual(["Hi", "Second"]);
+		const second = result.current.history[1];
+		expect(result.current.branches[second.id]).toMatchObject({
+			index: 1,
+			ids: [first.id, second.id],
+		});
+
+		act(() => result.current.switchBranch(first.id));
+		expect(contents(result.current.history)).toEqual(["Hi", "First"]);
+	});
+
+	it("continues an edited prompt from the edit", async () => {
+		const { result } = await renderSession();
+		mockNativeModule.queueResponse("Paris");
+		mockNativeModule.queueResponse("Rome");
+		await act(async () => {
+			await result.current.ask("Capital of France?");
+		});
+		await act(async () => {
+			await result.current.editMessage(
+				result.current.history[0].id,
+				"Capital of Italy?",
+			);
+		});
+		expect(contents(result.current.history)).toEqual([
+			"Capital of Italy?",
+			"Rome",
+		]);
+		const [, second] = mockNativeModule.callsTo("generateText");
+		expect(second.options).toMatchObject({ prompt: "Capital of Italy?" });
+	});
+
+	it("drops a prompt stopped before any text arrived", async () => {
+		const { result } = await renderSession();
+		mockNativeModule.queueResponse({ text: "Late", delayMs: 50 });
+		let pending!: Promise<string>;
+		act(() => {
+			pending = result.current.ask("Hi");
+		});
+		await act(async () => {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			result.current.stop();
+			expect(await pending).toBe("");
+		});
+		expect(result.current.history).toEqual([]);
+		expect(result.current.status).toBe("idle");
+		expect(result.current.error).toBeUndefined();
+	});
+
+	it("keeps the text streamed before stop() as the reply", async () => {
+		const { result } = await renderSession({ stream: true });
+		mockNativeModule.queueResponse("one two three");
+		const subscription = mockNativeModule.on("onTextStreamChunk", () => {
+			subscription.remove();
+			result.current.stop();
+		});
+		await act(async () => {
+			expect(await result.current.ask("Count")).toBe("one ");
+		});
+		expect(contents(result.current.history)).toEqual(["Count", "one "]);
+		expect(result.current.partial).toBeUndefined();
+		expect(result.current.status).toBe("idle");
+	});
+
+	it("continues from a reply kept by stop()", async () => {
+		const { result } = await renderSession({ stream: true });
+		mockNativeModule.queueResponse("one two three");
+		const subscription = mockNativeModule.on("onTextStreamChunk", () => {
+			subscription.remove();
+			result.current.stop();
+		});
+		await act(async () => {
+			await result.current.ask("Count");
+		});
+		await act(async () => {
+			await result.current.ask("Go on");
+		});
+		const [restore] = mockNativeModule.callsTo("restoreSession");
+		expect(restore.options).toMatchObject({
+			turns: [
+				{ role: "user", content: "Count" },
+				{ role: "assistant", content: "one " },
+			],
+		});
+	});
+
+	it("starts the next ask without earlier turns after reset()", async () => {
+		const { result } = await renderSession();
+		mockNativeModule.queueResponse("Hello");
+		await act(async () => {
+			await result.current.ask("Hi");
+		});
+		act(() => result.current.reset());
+		expect(result.current.history).toEqual([]);
+
+		mockNativeModule.queueResponse("Welcome");
+		await act(async () => {
+			await result.current.ask("Hello again");
+		});
+		expect(contents(result.current.history)).toEqual([
+			"Hello again",
+			"Welcome",
+		]);
+		const [restore] = mockNativeModule.callsTo("restoreSession");
+		expect(restore.options).toMatchObject({ turns: [] });
+	});
+
+	it("hydrates once and saves through an inline storage adapter", async () => {
+		const memory = createMemoryStorage();
+		const getItem = jest.spyOn(memory, "getItem");
+		const { result, rerender } = renderHook(() =>
+			useLLMSession({ storage: { ...memory }, persistDebounceMs: 0 }),
+		);
+		await waitFor(() => expect(result.current.status).toBe("idle"));
+		mockNativeModule.queueResponse("Hello");
+		await act(async () => {
+			await result.current.ask("Hi");
+		});
+		rerender({});
+		rerender({});
+		expect(getItem).toHaveBeenCalledTimes(1);
+		await waitFor(async () =>
+			expect(
+				await memory.getItem("apple-foundation-models/session/default"),
+			).toContain("Hello"),
+		);
+	});
+
+	it("starts empty when switched to a storage key with nothing saved", async () => {
+		const memory = createMemoryStorage();
+		const { result, rerender } = renderHook(
+			({ storageKey }: { storageKey: string }) =>
+				useLLMSession({ storage: memory, storageKey, persistDebounceMs: 0 }),
+			{ initialProps: { storageKey: "a" } },
+		);
+		await waitFor(() => expect(result.current.status).toBe("idle"));
+		mockNativeModule.queueResponse("Hello");
+		await act(async () => {
+			await result.current.ask("Hi");
+		});
+
+		rerender({ storageKey: "b" });
+		await waitFor(() => expect(result.current.history).toEqual([]));
+		mockNativeModule.queueResponse("Fresh");
+		await act(async () => {
+			await result.current.ask("New chat");
+		});
+		expect(contents(result.current.history)).toEqual(["New chat", "Fresh"]);
+		expect(mockNativeModule.callsTo("restoreSession")).toHaveLength(0);
+		await waitFor(async () => {
+			expect(await memory.getItem("a")).toContain("Hello");
+			const saved = await memory.getItem("b");
+			expect(saved).toContain("Fresh");
+			expect(saved).not.toContain("Hello");
+		});
+	});
+
+	it("removes a prompt rejected as busy without setting error", async () => {
+		const { result } = await renderSession({ concurrency: "reject" });
+		mockNativeModule.queueResponse({ text: "Slow", delayMs: 30 });
+		await act(async () => {
+			const first = result.current.ask("1");
+			await expect(result.current.ask("2")).rejects.toMatchObject({
+				code: "ERR_TEXT_GENERATION_BUSY",
+			});
+			await first;
+		});
+		expect(contents(result.current.history)).toEqual(["1", "Slow"]);
+		expect(result.current.error).toBeUndefined();
+	});
+});
@@ -0,0 +1,43 @@
+import { act, renderHook, waitFor } from "@testing-library/react-native";
+
+import { mockNativeModule } from "../testing";
+import { useTextModelAvailability } from "../useTextModelAvailability";
+
+jest.mock("../AppleFoundationModelsModule.ios");
+
+beforeEach(() => mockNativeModule.reset());
+
+describe("useTextModelAvailability", () => {
+	it("reports the current availability", async () => {
+		mockNativeModule.setAvailability({
+			status: "unavailable",
+			reasonCode: "deviceNotEligible",
+		});
+		const { result } = renderHook(() => useTextModelAvailability());
+		expect(result.current).toBeUndefined();
+		await waitFor(() =>
+			expect(result.current).toEqual({
+				status: "unavailable",
+				reasonCode: "deviceNotEligible",
+			}),
+		);
+	});
+
+	it("re-renders when availability changes", async () => {
+		mockNativeModule.setAvailability({
+			status: "unavailable",
+			reasonCode: "modelNotReady",
+		});
+		const { result, unmount } = renderHook(() => useTextModelAvailability());
+		await waitFor(() => expect(result.current?.status).toBe("unavailable"));
+		act(() => mockNativeModule.setAvailability({ status: "available" }));
+		expect(result.current).toEqual({ status: "available" });
+
+		unmount();
+		mockNativeModule.setAvailability({
+			status: "unavailable",
+			reasonCode: "modelNotReady",
+		});
+		expect(result.current).toEqual({ status: "available" });
+	});
+});
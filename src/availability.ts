@@ -0,0 +1,115 @@
+import { Platform } from "react-native";
+
+import type { TextModelAvailability } from "./AppleFoundationModels.types";
+import AppleFoundationModelsModule from "./AppleFoundationModelsModule.ios";
+import { appleProvider } from "./provider";
+
+const isAndroid = Platform.OS === "android";
+
+const POLL_INITIAL_MS = 1000;
+const POLL_MAX_MS = 30_000;
+
+type AvailabilityListener = (availability: TextModelAvailability) => void;
+
+const listeners = new Set<AvailabilityListener>();
+let current: TextModelAvailability | undefined;
+let pollDelay = POLL_INITIAL_MS;
+let pollTimer: ReturnType<typeof setTimeout> | undefined;
+let nativeSubscription: { remove(): void } | undefined;
+
+function sameAvailability(
+	a: TextModelAvailability | undefined,
+	b: TextModelAvailability,
+): boolean {
+	return (
+		a?.status === b.status &&
+		(a.status === "available" ||
+			a.reasonCode === (b as { reasonCode?: string }).reasonCode)
+	);
+}
+
+// Reasons that can clear up while the app runs, e.g. once the model downloads
+function mayChange(availability: TextModelAvailability): boolean {
+	return (
+		availability.status === "unavailable" &&
+		availability.reasonCode !== "deviceNotEligible" &&
+		availability.reasonCode !== "unsupported"
+	);
+}
+
+function update(availability: TextModelAvailability): void {
+	if (listeners.size === 0) return;
+	const changed = !sameAvailability(current, availability);
+	const initial = current === undefined;
+	current = availability;
+	if (changed) {
+		pollDelay = POLL_INITIAL_MS;
+		if (!initial) {
+			for (const listener of Array.from(listeners)) listener(availability);
+		}
+	}
+	schedulePoll();
+}
+
+// Poll with backoff while the model may still become available, only when
+// the native module cannot report the change itself
+function schedulePoll(): void {
+	if (pollTimer) clearTimeout(pollTimer);
+	pollTimer = undefined;
+	if (nativeSubscription || listeners.size === 0) return;
+	if (!current || !mayChange(current)) return;
+	pollTimer = setTimeout(() => {
+		pollTimer = undefined;
+		pollDelay = Math.min(pollDelay * 2, POLL_MAX_MS);
+		appleProvider.getAvailability().then(update, () => schedulePoll());
+	}, pollDelay);
+}
+
+function start(): void {
+	if (!isAndroid) {
+		try {
+			nativeSubscription = AppleFoundationModelsModule.addListener(
+				"onAvailabilityChange",
+				update,
+			);
+		} catch {
+			// Older native builds do not emit the event; poll them instead
+		}
+	}
+	appleProvider.getAvailability().then(update, () => {});
+}
+
+function stop(): void {
+	nativeSubscription?.remove();
+	nativeSubscription = undefined;
+	if (pollTimer) clearTimeout(pollTimer);
+	pollTimer = undefined;
+	current = undefined;
+	pollDelay = POLL_INITIAL_MS;
+}
+
+/**
+ * Call `listener` whenever the on-device model's availability changes, for
+ * example from `modelNotReady` to `available` once the model has downloaded.
+ * It is not called with the initial value; read that with
+ * `getTextModelAvailability()`.
+ *
+ * Changes are reported by the native module, which checks while anyone
+ * listens. Only when it cannot emit the event (older native builds) is
+ * availability polled from JS instead, with backoff (1 s up to 30 s) while
+ * the status is one that can still change.
+ *
+ * @returns A subscription; call `remove()` to stop listening.
+ */
+export function addAvailabilityListener(listener: AvailabilityListener): {
+	remove(): void;
+} {
+	listeners.add(listener);
+	if (listeners.size === 1) start();
+	return {
+		remove() {
+			if (!listeners.delete(listener)) return;
+			if (listeners.size === 0) stop();
+		},
+	};
+}
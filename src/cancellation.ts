@@ -0,0 +1,81 @@
+import { TextGenerationError } from "./errors";
+import { cancelProviderRequest } from "./provider";
+import { createRequestId } from "./requestId";
+
+export type CancellableOptions = {
+	signal?: AbortSignal;
+	timeoutMs?: number;
+	requestId?: string;
+	/**
+	 * Receives the underlying request, which keeps running until the provider
+	 * stops it even after the returned promise has rejected.
+	 */
+	track?: (request: Promise<unknown>) => void;
+};
+
+function canceledError(signal: AbortSignal): TextGenerationError {
+	return new TextGenerationError({
+		code: "ERR_TEXT_GENERATION_CANCELED",
+		message: "Text generation was canceled.",
+		cause: signal.reason,
+	});
+}
+
+function timeoutError(timeoutMs: number): TextGenerationError {
+	return new TextGenerationError({
+		code: "ERR_TEXT_GENERATION_TIMEOUT",
+		message: `Text generation timed out after ${timeoutMs}ms.`,
+	});
+}
+
+/**
+ * Run a native request that can be aborted through `signal` or bounded by
+ * `timeoutMs`.
+ *
+ * On abort the returned promise rejects immediately with
+ * `ERR_TEXT_GENERATION_CANCELED`; when the timeout elapses first it rejects
+ * with `ERR_TEXT_GENERATION_TIMEOUT`. Either way the provider running the
+ * request id is asked to stop it and its outcome is ignored; pass `track` to
+ * wait for it to actually finish.
+ */
+export function runCancellable<T>(
+	run: (requestId: string) => Promise<T>,
+	{
+		signal,
+		timeoutMs,
+		requestId = createRequestId(),
+		track,
+	}: CancellableOptions = {},
+): Promise<T> {
+	const hasTimeout = timeoutMs != null && timeoutMs > 0;
+	if (!signal && !hasTimeout) {
+		const request = run(requestId);
+		track?.(request);
+		return request;
+	}
+	if (signal?.aborted) {
+		return Promise.reject(canceledError(signal));
+	}
+
+	return new Promise<T>((resolve, reject) => {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		const stop = (error: TextGenerationError) => {
+			reject(error);
+			cancelProviderRequest(requestId).catch(() => {});
+		};
+		const onAbort = () => stop(canceledError(signal as AbortSignal));
+
+		signal?.addEventListener("abort", onAbort, { once: true });
+		if (hasTimeout) {
+			timer = setTimeout(() => stop(timeoutError(timeoutMs)), timeoutMs);
+		}
+
+		const request = run(requestId);
+		track?.(request);
+		request.then(resolve, reject).finally(() => {
+			signal?.removeEventListener("abort", onAbort);
+			if (timer) clearTimeout(timer);
+		});
+	});
+}
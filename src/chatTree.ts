@@ -0,0 +1,204 @@
+import type {
+	ChatBranch,
+	ChatMessage,
+	TranscriptTurn,
+} from "./AppleFoundationModels.types";
+
+/**
+ * Parent id of the first messages of a conversation.
+ */
+export const ROOT = "";
+
+/**
+ * Every message of a conversation, including the ones on branches that are
+ * not shown. Messages under the same parent are alternatives; `selected`
+ * records which one is shown, defaulting to the newest.
+ */
+export type ChatTree = {
+	nodes: Record<string, { message: ChatMessage; parentId: string }>;
+	children: Record<string, string[]>;
+	selected: Record<string, string>;
+};
+
+export const emptyTree: ChatTree = { nodes: {}, children: {}, selected: {} };
+
+let counter = 0;
+
+/**
+ * Create a message id. Unique across launches, so saved trees can grow.
+ */
+export function createMessageId(): string {
+	counter += 1;
+	return `msg_${Date.now().toString(36)}_${counter.toString(36)}`;
+}
+
+export function isChatTree(value: unknown): value is ChatTree {
+	const tree = value as ChatTree | undefined;
+	return (
+		typeof tree?.nodes === "object" &&
+		typeof tree.children === "object" &&
+		typeof tree.selected === "object"
+	);
+}
+
+/**
+ * Build a tree with a single branch from a flat list of turns.
+ */
+export function treeFromTurns(turns: TranscriptTurn[]): ChatTree {
+	let tree = emptyTree;
+	let parentId = ROOT;
+	for (const turn of turns) {
+		const message: ChatMessage = { ...turn, id: createMessageId() };
+		tree = addMessage(tree, parentId, message);
+		parentId = message.id;
+	}
+	return tree;
+}
+
+export function toTurn({ id: _id, ...turn }: ChatMessage): TranscriptTurn {
+	return turn;
+}
+
+export function parentOf(tree: ChatTree, id: string): string {
+	return tree.nodes[id]?.parentId ?? ROOT;
+}
+
+function shownChild(tree: ChatTree, parentId: string): string | undefined {
+	const children = tree.children[parentId] ?? [];
+	const selected = tree.selected[parentId];
+	return selected && children.includes(selected)
+		? selected
+		: children[children.length - 1];
+}
+
+/**
+ * The shown conversation: the selected message at every level.
+ */
+export function activePath(tree: ChatTree): ChatMessage[] {
+	const path: ChatMessage[] = [];
+	for (let id = shownChild(tree, ROOT); id; id = shownChild(tree, id)) {
+		path.push(tree.nodes[id].message);
+	}
+	return path;
+}
+
+/**
+ * The messages from the start of the conversation up to and including `id`.
+ */
+export function pathTo(tree: ChatTree, id: string): ChatMessage[] {
+	const path: ChatMessage[] = [];
+	for (let current = id; tree.nodes[current]; ) {
+		path.unshift(tree.nodes[current].message);
+		current = tree.nodes[current].parentId;
+	}
+	return path;
+}
+
+/**
+ * Add `message` under `parentId` and show it.
+ */
+export function addMessage(
+	tree: ChatTree,
+	parentId: string,
+	message: ChatMessage,
+): ChatTree {
+	return {
+		nodes: { ...tree.nodes, [message.id]: { message, parentId } },
+		children: {
+			...tree.children,
+			[parentId]: [...(tree.children[parentId] ?? []), message.id],
+		},
+		selected: { ...tree.selected, [parentId]: message.id },
+	};
+}
+
+// Move `ids` from under `from` to under `to`, keeping the shown one shown
+function reparent(
+	tree: ChatTree,
+	ids: string[],
+	from: string,
+	to: string,
+): ChatTree {
+	if (ids.length === 0) return tree;
+	const nodes = { ...tree.nodes };
+	for (const id of ids) nodes[id] = { ...nodes[id], parentId: to };
+	const selected = { ...tree.selected };
+	if (ids.includes(selected[from])) selected[to] = selected[from];
+	return {
+		nodes,
+		children: {
+			...tree.children,
+			[from]: (tree.children[from] ?? []).filter((id) => !ids.includes(id)),
+			[to]: [...(tree.children[to] ?? []), ...ids],
+		},
+		selected,
+	};
+}
+
+/**
+ * Add `reply` under the prompt it answers. Prompts queued behind that prompt
+ * while it was answered move under the reply, so they follow it.
+ */
+export function addReply(
+	tree: ChatTree,
+	promptId: string,
+	reply: ChatMessage,
+): ChatTree {
+	const queued = (tree.children[promptId] ?? []).filter(
+		(id) => tree.nodes[id].message.role === "user",
+	);
+	return reparent(
+		addMessage(tree, promptId, reply),
+		queued,
+		promptId,
+		reply.id,
+	);
+}
+
+/**
+ * Remove the message `id`; its children take its place.
+ */
+export function removeMessage(tree: ChatTree, id: string): ChatTree {
+	const node = tree.nodes[id];
+	if (!node) return tree;
+	const moved = reparent(tree, tree.children[id] ?? [], id, node.parentId);
+	const { [id]: _node, ...nodes } = moved.nodes;
+	const { [id]: _children, ...children } = moved.children;
+	const { [id]: _selected, ...selected } = moved.selected;
+	children[node.parentId] = (children[node.parentId] ?? []).filter(
+		(child) => child !== id,
+	);
+	if (selected[node.parentId] === id) delete selected[node.parentId];
+	return { nodes, children, selected };
+}
+
+/**
+ * Show the message `id`, selecting every message above it.
+ */
+export function selectMessage(tree: ChatTree, id: string): ChatTree {
+	if (!tree.nodes[id]) return tree;
+	const selected = { ...tree.selected };
+	for (let current = id; tree.nodes[current]; ) {
+		const { parentId } = tree.nodes[current];
+		selected[parentId] = current;
+		current = parentId;
+	}
+	return { ...tree, selected };
+}
+
+/**
+ * The alternatives for each message of `path`, keyed by message id.
+ */
+export function branchesOf(
+	tree: ChatTree,
+	path: ChatMessage[],
+): Record<string, ChatBranch> {
+	const branches: Record<string, ChatBranch> = {};
+	for (const message of path) {
+		const ids = (tree.children[parentOf(tree, message.id)] ?? []).filter(
+			(id) => tree.nodes[id].message.role === message.role,
+		);
+		branches[message.id] = { index: ids.indexOf(message.id), ids };
+	}
+	return branches;
+}
@@ -1,4 +1,8 @@
-import type { TextGenerationErrorCode } from "./AppleFoundationModels.types";
+import type {
+	ObjectGenerationErrorCode,
+	SchemaValidationIssue,
+	TextGenerationErrorCode,
+} from "./AppleFoundationModels.types";
 
 const TEXT_GENERATION_ERROR_CODES: ReadonlySet<TextGenerationErrorCode> =
 	new Set([
@@ -9,6 +13,18 @@ const TEXT_GENERATION_ERROR_CODES: ReadonlySet<TextGenerationErrorCode> =
 		"ERR_TEXT_GENERATION_TIMEOUT",
 		"ERR_TEXT_GENERATION_RUNTIME",
 		"ERR_TEXT_GENERATION_MODEL_UNAVAILABLE",
+		"ERR_TEXT_GENERATION_CONTEXT_OVERFLOW",
+		"ERR_TEXT_GENERATION_BUSY",
+		"ERR_TEXT_GENERATION_GUARDRAIL",
+	]);
+
+const OBJECT_GENERATION_ERROR_CODES: ReadonlySet<ObjectGenerationErrorCode> =
+	new Set([
+		"ERR_OBJECT_GENERATION_UNSUPPORTED",
+		"ERR_OBJECT_PROMPT_INVALID",
+		"ERR_OBJECT_SCHEMA_INVALID",
+		"ERR_OBJECT_GENERATION_DECODE_FAILED",
+		"ERR_OBJECT_GENERATION_RUNTIME",
 	]);
 
 type NativeErrorLike = {
@@ -91,3 +107,98 @@ export function isTextGenerationError(
 ): error is TextGenerationError {
 	return error instanceof TextGenerationError;
 }
+
+/**
+ * Error thrown by structured generation.
+ * - `cause` holds the underlying error. Failures with a text code, from native
+ *   guided generation or the prompt fallback, keep it as a `TextGenerationError`.
+ * - On `ERR_OBJECT_GENERATION_DECODE_FAILED`, `output` is the raw model output
+ *   and `issues` lists each schema violation (empty when the JSON did not parse).
+ */
+export class ObjectGenerationError extends Error {
+	readonly code: ObjectGenerationErrorCode;
+	readonly issues?: SchemaValidationIssue[];
+	readonly output?: string;
+	readonly nativeCode?: number;
+	readonly nativeDomain?: string;
+	override readonly cause?: unknown;
+
+	constructor({
+		code,
+		message,
+		cause,
+		issues,
+		output,
+		nativeCode,
+		nativeDomain,
+	}: {
+		code: ObjectGenerationErrorCode;
+		message: string;
+		cause?: unknown;
+		issues?: SchemaValidationIssue[];
+		output?: string;
+		nativeCode?: number;
+		nativeDomain?: string;
+	}) {
+		super(message);
+		this.name = "ObjectGenerationError";
+		this.code = code;
+		this.cause = cause;
+		this.issues = issues;
+		this.output = output;
+		this.nativeCode = nativeCode;
+		this.nativeDomain = nativeDomain;
+	}
+}
+
+export function toObjectGenerationError(error: unknown): ObjectGenerationError {
+	if (error instanceof ObjectGenerationError) {
+		return error;
+	}
+
+	if (
+		isNativeErrorLike(error) &&
+		OBJECT_GENERATION_ERROR_CODES.has(error.code as ObjectGenerationErrorCode)
+	) {
+		return new ObjectGenerationError({
+			code: error.code as ObjectGenerationErrorCode,
+			message: String(error.message ?? "Object generation failed."),
+			cause: error.cause,
+			nativeCode:
+				typeof error.nativeCode === "number" ? error.nativeCode : undefined,
+			nativeDomain:
+				typeof error.nativeDomain === "string" ? error.nativeDomain : undefined,
+		});
+	}
+
+	// Text-level failures, e.g. of native guided generation, keep the typed
+	// `TextGenerationError` as `cause`
+	if (
+		error instanceof TextGenerationError ||
+		(isNativeErrorLike(error) &&
+			TEXT_GENERATION_ERROR_CODES.has(error.code as TextGenerationErrorCode))
+	) {
+		const cause = toTextGenerationError(error);
+		return new ObjectGenerationError({
+			code: "ERR_OBJECT_GENERATION_RUNTIME",
+			message: cause.message,
+			cause,
+			nativeCode: cause.nativeCode,
+			nativeDomain: cause.nativeDomain,
+		});
+	}
+
+	return new ObjectGenerationError({
+		code: "ERR_OBJECT_GENERATION_RUNTIME",
+		message:
+			(isNativeErrorLike(error) && error.message) ||
+			(error instanceof Error ? error.message : "Object generation failed."),
+		cause: error instanceof Error ? error : undefined,
+	});
+}
+
+export function isObjectGenerationError(
+	error: unknown,
+): error is ObjectGenerationError {
+	return error instanceof ObjectGenerationError;
+}
@@ -0,0 +1,222 @@
+import { Platform } from "react-native";
+
+import type {
+	GenerationUsage,
+	InferObjectSchema,
+	ObjectGenerationOptions,
+	ObjectGenerationResult,
+	ObjectSchema,
+} from "./AppleFoundationModels.types";
+import { runCancellable } from "./cancellation";
+import {
+	isObjectGenerationError,
+	isTextGenerationError,
+	ObjectGenerationError,
+	toObjectGenerationError,
+	toTextGenerationError,
+} from "./errors";
+import { generateText } from "./generateText";
+import { addUsage, generationMetadata, startGenerationTimer } from "./metadata";
+import { objectInstructions, prepareObjectSchema } from "./objectSchema";
+import { appleProvider, getActiveProvider } from "./provider";
+import { supportsNativeGuidedGeneration } from "./schema";
+
+const isAndroid = Platform.OS === "android";
+
+// Follow-up turn asking the model to fix output that failed to decode
+function repairPrompt(output: string, error: ObjectGenerationError): string {
+	const issues = error.issues;
+	const problems = issues?.length
+		? issues.map((issue) => `- ${issue.message}`).join("\n")
+		: `- ${error.message}`;
+	return `Your previous response could not be used:
+${problems}
+
+Previous response:
+${output}
+
+Respond again with ONLY the corrected JSON that conforms to the schema. No prose.`;
+}
+
+// generateObject: prompt model to produce JSON, then parse + validate
+/**
+ * Generate a structured object matching `schema`.
+ * Prefers native guided generation when available, otherwise falls back to
+ * prompt-then-parse with runtime validation against the schema.
+ * Schemas using keywords outside `NATIVE_SCHEMA_KEYWORDS` are still sent to the
+ * native module, but as prompt guidance rather than a `GenerationSchema`.
+ * Missing properties with a `default` are filled in before validation.
+ * JSON is extracted tolerantly from fenced or prose-wrapped output unless
+ * `strictJSON` is set.
+ *
+ * Failures throw an `ObjectGenerationError`. When the output does not parse
+ * or match the schema, its code is `ERR_OBJECT_GENERATION_DECODE_FAILED`,
+ * `output` holds the raw model output and `issues` lists a
+ * `SchemaValidationIssue` for each offending field. Set
+ * `maxRepairAttempts` to re-prompt the same session with the error and the bad
+ * output before giving up; `attempts` on the result counts the turns used and
+ * `usage` sums the tokens of all of them.
+ *
+ * Aborting `signal` still rejects with a `TextGenerationError` whose code is
+ * `ERR_TEXT_GENERATION_CANCELED`; exceeding `timeoutMs` rejects with
+ * `ERR_TEXT_GENERATION_TIMEOUT`.
+ *
+ * `schema` may also be a Standard Schema validator such as a Zod schema. It is
+ * converted to a `JSONSchema` for guided generation, and the decoded output is
+ * then validated (and transformed) by the validator itself. Validators using
+ * features that cannot be converted throw with `ERR_OBJECT_SCHEMA_INVALID`.
+ *
+ * The result type is inferred from a literal `schema` (see `InferSchema`) or
+ * from the validator's output type, or can be given explicitly as
+ * `generateObject<MyType>(...)`.
+ */
+export async function generateObject<const S extends ObjectSchema>(
+	options: ObjectGenerationOptions<S>,
+): Promise<ObjectGenerationResult<InferObjectSchema<S>>>;
+export async function generateObject<T = unknown>(
+	options: ObjectGenerationOptions,
+): Promise<ObjectGenerationResult<T>>;
+export async function generateObject<T = unknown>(
+	options: ObjectGenerationOptions,
+): Promise<ObjectGenerationResult<T>> {
+	try {
+		return await runGenerateObject<T>(options);
+	} catch (error) {
+		if (isAbortOrTimeout(error)) {
+			throw error;
+		}
+		throw toObjectGenerationError(error);
+	}
+}
+
+function isAbortOrTimeout(error: unknown): boolean {
+	return (
+		isTextGenerationError(error) &&
+		(error.code === "ERR_TEXT_GENERATION_CANCELED" ||
+			error.code === "ERR_TEXT_GENERATION_TIMEOUT")
+	);
+}
+
+async function runGenerateObject<T>(
+	options: ObjectGenerationOptions,
+): Promise<ObjectGenerationResult<T>> {
+	const prompt = options.prompt?.trim();
+	if (!prompt) {
+		throw new ObjectGenerationError({
+			code: "ERR_OBJECT_PROMPT_INVALID",
+			message: "Prompt must be a non-empty string.",
+		});
+	}
+
+	const { schema, decode } = prepareObjectSchema<T>(options.schema, {
+		strictJSON: options.strictJSON,
+	});
+	const system = objectInstructions(options.instructions);
+
+	const provider = await getActiveProvider();
+	if (isAndroid && provider === appleProvider) {
+		throw new ObjectGenerationError({
+			code: "ERR_OBJECT_GENERATION_UNSUPPORTED",
+			message: "Structured generation is not supported on Android.",
+		});
+	}
+
+	// Prefer guided generation if the provider offers it
+	const generateNative = provider.generateObject?.bind(provider);
+	let useNative = !!generateNative;
+
+	// One model turn: native guided generation, falling back to text prompting
+	const request = async (
+		text: string,
+		sessionId: string | undefined,
+	): Promise<{ json: string; sessionId: string }> => {
+		if (useNative && generateNative) {
+			try {
+				return await runCancellable(
+					(requestId) =>
+						generateNative({
+							prompt: text,
+							system: system || undefined,
+							schema: JSON.stringify(schema),
+							guided: supportsNativeGuidedGeneration(schema),
+							sessionId,
+							temperature: 0.2,
+							maxOutputTokens: 512,
+							requestId,
+						}),
+					{ signal: options.signal, timeoutMs: options.timeoutMs },
+				);
+			} catch (error) {
+				// Native errors arrive unnormalized; only an unsupported one falls back
+				if (
+					toTextGenerationError(error).code !==
+					"ERR_TEXT_GENERATION_UNSUPPORTED"
+				) {
+					throw error;
+				}
+				// Fallback to text prompting for this and later turns
+				useNative = false;
+			}
+		}
+
+		try {
+			const result = await generateText({
+				prompt: text,
+				instructions: `${system}\n\nSchema: ${JSON.stringify(schema)}`,
+				sessionId,
+				// keep temperature conservative for structure
+				temperature: 0.2,
+				maxOutputTokens: 512,
+				signal: options.signal,
+				timeoutMs: options.timeoutMs,
+			});
+			return { json: result.text, sessionId: result.sessionId };
+		} catch (error) {
+			if (isAbortOrTimeout(error)) {
+				throw error;
+			}
+			// Surface text error as object generation runtime, keeping it as the cause
+			throw new ObjectGenerationError({
+				code: "ERR_OBJECT_GENERATION_RUNTIME",
+				message:
+					error instanceof Error ? error.message : "Object generation failed",
+				cause: error,
+			});
+		}
+	};
+
+	const maxRepairAttempts = Math.max(0, options.maxRepairAttempts ?? 0);
+	let sessionId = options.sessionId;
+	let next = prompt;
+	let usage: GenerationUsage | undefined;
+	const timer = startGenerationTimer();
+	for (let attempt = 1; ; attempt++) {
+		const response = await request(next, sessionId);
+		sessionId = response.sessionId;
+		const metadata = generationMetadata(
+			{ prompt: next, system, maxOutputTokens: 512 },
+			{ text: response.json, sessionId },
+			timer,
+		);
+		usage = addUsage(usage, metadata.usage);
+		try {
+			return {
+				object: await decode(response.json),
+				sessionId,
+				attempts: attempt,
+				...metadata,
+				usage,
+			};
+		} catch (error) {
+			if (
+				!isObjectGenerationError(error) ||
+				error.code !== "ERR_OBJECT_GENERATION_DECODE_FAILED" ||
+				attempt > maxRepairAttempts
+			) {
+				throw error;
+			}
+			// Show the model its output and what was wrong on the same session
+			next = repairPrompt(response.json, error);
+		}
+	}
+}
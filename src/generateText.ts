@@ -0,0 +1,97 @@
+import type {
+	GenerationUsage,
+	TextGenerationOptions,
+	TextGenerationResult,
+} from "./AppleFoundationModels.types";
+import { runCancellable } from "./cancellation";
+import { toTextGenerationError } from "./errors";
+import {
+	addUsage,
+	type GenerationRequestInfo,
+	generationMetadata,
+	generationUsage,
+	startGenerationTimer,
+} from "./metadata";
+import { getActiveProvider } from "./provider";
+import { runToolLoop, withToolInstructions } from "./tools";
+
+/**
+ * Generate a single text response. Returns the text and the sessionId used.
+ * Pass `signal` to cancel; the call then rejects with `ERR_TEXT_GENERATION_CANCELED`.
+ * Pass `timeoutMs` to bound the wait; on expiry it rejects with `ERR_TEXT_GENERATION_TIMEOUT`.
+ * Pass `tools` to let the model call back into JS; `timeoutMs` then applies to each model turn.
+ * The result also carries token `usage` (estimated unless the OS reports it),
+ * `timing` and `finishReason`.
+ */
+export async function generateText(
+	options: TextGenerationOptions,
+): Promise<TextGenerationResult> {
+	const prompt = options.prompt?.trim();
+
+	if (!prompt) {
+		throw new Error("Prompt must be a non-empty string.");
+	}
+
+	const {
+		instructions,
+		temperature,
+		maxOutputTokens,
+		sessionId,
+		signal,
+		timeoutMs,
+		tools,
+		maxToolSteps,
+	} = options;
+
+	const system =
+		tools && tools.length > 0
+			? withToolInstructions(instructions, tools)
+			: instructions?.trim();
+
+	const provider = await getActiveProvider();
+	const send = (text: string, id: string | undefined) =>
+		runCancellable(
+			(requestId) =>
+				provider.generateText({
+					prompt: text,
+					system,
+					temperature,
+					maxOutputTokens,
+					sessionId: id,
+					requestId,
+				}),
+			{ signal, timeoutMs },
+		);
+
+	const info: GenerationRequestInfo = { prompt, system, maxOutputTokens };
+	const timer = startGenerationTimer();
+	try {
+		if (!tools || tools.length === 0) {
+			const result = await send(prompt, sessionId);
+			return { ...result, ...generationMetadata(info, result, timer) };
+		}
+		// Keep follow-up turns on the session created by the first turn, and
+		// count the tokens of every turn
+		let currentSessionId = sessionId;
+		let usage: GenerationUsage | undefined;
+		const result = await runToolLoop({
+			prompt,
+			tools,
+			maxToolSteps,
+			signal,
+			send: async (text) => {
+				const result = await send(text, currentSessionId);
+				currentSessionId = result.sessionId;
+				usage = addUsage(
+					usage,
+					generationUsage({ ...info, prompt: text }, result),
+				);
+				return result;
+			},
+		});
+		const metadata = generationMetadata(info, result, timer);
+		return { ...result, ...metadata, usage: usage ?? metadata.usage };
+	} catch (error) {
+		throw toTextGenerationError(error);
+	}
+}
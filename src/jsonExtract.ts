@@ -0,0 +1,133 @@
+/**
+ * Options for `extractJSON`.
+ * - `strict`: only accept output that is valid JSON as a whole (surrounding
+ *   whitespace aside). Defaults to `false`.
+ * - `expect`: top-level type the caller wants. When the output holds several
+ *   JSON values, such as a bracketed reference before the answer, the first
+ *   one of this type wins.
+ */
+export type ExtractJSONOptions = {
+	strict?: boolean;
+	expect?: "object" | "array";
+};
+
+const FENCE_PATTERN = /```[A-Za-z]*[ \t]*\r?\n?([\s\S]*?)```/g;
+
+// End index (exclusive) of the balanced value opening at `start`, mirroring
+// `JSONExtractor.firstJSONObject(in:)` on the native side
+function balancedEnd(text: string, start: number): number | undefined {
+	const stack: string[] = [];
+	let inString = false;
+	let escaped = false;
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (char === "\\") escaped = true;
+			else if (char === '"') inString = false;
+			continue;
+		}
+		if (char === '"') inString = true;
+		else if (char === "{") stack.push("}");
+		else if (char === "[") stack.push("]");
+		else if (char === "}" || char === "]") {
+			if (stack.pop() !== char) return undefined;
+			if (stack.length === 0) return i + 1;
+		}
+	}
+	return undefined;
+}
+
+// Drop commas directly before a closing bracket, outside of strings
+function stripTrailingCommas(text: string): string {
+	let out = "";
+	let inString = false;
+	let escaped = false;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (char === "\\") escaped = true;
+			else if (char === '"') inString = false;
+		} else if (char === '"') {
+			inString = true;
+		} else if (char === ",") {
+			const rest = text.slice(i + 1).trimStart();
+			if (rest.startsWith("}") || rest.startsWith("]")) continue;
+		}
+		out += char;
+	}
+	return out;
+}
+
+function tryParse(text: string): { value: unknown } | undefined {
+	for (const candidate of [text, stripTrailingCommas(text)]) {
+		try {
+			return { value: JSON.parse(candidate) };
+		} catch {}
+	}
+	return undefined;
+}
+
+function isOfType(value: unknown, type: ExtractJSONOptions["expect"]): boolean {
+	if (type === "array") return Array.isArray(value);
+	if (type === "object") {
+		return typeof value === "object" && value != null && !Array.isArray(value);
+	}
+	return true;
+}
+
+// Every balanced `{...}` or `[...]` in `text`, in order of appearance
+function* balancedCandidates(text: string): Generator<string> {
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] !== "{" && text[i] !== "[") continue;
+		const end = balancedEnd(text, i);
+		if (end != null) {
+			yield text.slice(i, end);
+		}
+	}
+}
+
+/**
+ * Parse the JSON value contained in model output.
+ *
+ * Unless `strict` is set, tolerates what on-device models commonly add around
+ * the JSON: code fences (```json), leading prose, trailing remarks and
+ * trailing commas. Objects and top-level arrays are both accepted; the first
+ * candidate that parses wins, preferring one of the `expect`ed type.
+ *
+ * @throws SyntaxError when no JSON value can be found.
+ */
+export function extractJSON(
+	text: string,
+	options: ExtractJSONOptions = {},
+): unknown {
+	const trimmed = text.trim();
+	if (options.strict) {
+		return JSON.parse(trimmed);
+	}
+
+	// The first value that parses, kept in case none has the expected type
+	let fallback: { value: unknown } | undefined;
+	const accept = (parsed: { value: unknown } | undefined): boolean => {
+		if (!parsed) return false;
+		fallback ??= parsed;
+		return isOfType(parsed.value, options.expect);
+	};
+
+	const whole = tryParse(trimmed);
+	if (accept(whole)) return whole?.value;
+
+	const sources = [...trimmed.matchAll(FENCE_PATTERN)].map((m) => m[1].trim());
+	sources.push(trimmed);
+	for (const source of sources) {
+		const direct = tryParse(source);
+		if (accept(direct)) return direct?.value;
+		for (const candidate of balancedCandidates(source)) {
+			const parsed = tryParse(candidate);
+			if (accept(parsed)) return parsed?.value;
+		}
+	}
+	if (fallback) return fallback.value;
+	throw new SyntaxError("No JSON value found in model output.");
+}
@@ -0,0 +1,116 @@
+import type {
+	FinishReason,
+	GenerationMetadata,
+	GenerationUsage,
+	NativeTextGenerationResult,
+} from "./AppleFoundationModels.types";
+import { isTextGenerationError } from "./errors";
+import { estimateTokens } from "./tokens";
+
+/**
+ * Wall-clock timer for one generation. Call `firstToken()` when the first
+ * streamed chunk arrives, `finish()` once the result is in.
+ */
+export function startGenerationTimer() {
+	const startedAt = Date.now();
+	let firstTokenAt: number | undefined;
+	return {
+		firstToken() {
+			firstTokenAt ??= Date.now();
+		},
+		finish() {
+			return {
+				durationMs: Date.now() - startedAt,
+				timeToFirstTokenMs:
+					firstTokenAt != null ? firstTokenAt - startedAt : undefined,
+			};
+		},
+	};
+}
+
+export type GenerationTimer = ReturnType<typeof startGenerationTimer>;
+
+/**
+ * What was sent to the model, for estimating usage and the finish reason.
+ */
+export type GenerationRequestInfo = {
+	prompt: string;
+	system?: string;
+	maxOutputTokens?: number;
+};
+
+/**
+ * Usage for `result`: native counts when reported, otherwise estimated from
+ * the instructions, prompt and response text.
+ */
+export function generationUsage(
+	request: GenerationRequestInfo,
+	result: NativeTextGenerationResult,
+): GenerationUsage {
+	const estimated =
+		result.promptTokens == null || result.completionTokens == null;
+	const promptTokens =
+		result.promptTokens ??
+		estimateTokens(request.system) + estimateTokens(request.prompt);
+	const completionTokens =
+		result.completionTokens ?? estimateTokens(result.text);
+	return {
+		promptTokens,
+		completionTokens,
+		totalTokens: promptTokens + completionTokens,
+		estimated,
+	};
+}
+
+// Sum of two usages, estimated if either was
+export function addUsage(
+	total: GenerationUsage | undefined,
+	usage: GenerationUsage | undefined,
+): GenerationUsage | undefined {
+	if (!total || !usage) return usage ?? total;
+	return {
+		promptTokens: total.promptTokens + usage.promptTokens,
+		completionTokens: total.completionTokens + usage.completionTokens,
+		totalTokens: total.totalTokens + usage.totalTokens,
+		estimated: total.estimated || usage.estimated,
+	};
+}
+
+/**
+ * Metadata for a completed generation. A response whose token count reaches
+ * `maxOutputTokens` is reported as `length`, since the model gives no explicit
+ * signal that it was cut off.
+ */
+export function generationMetadata(
+	request: GenerationRequestInfo,
+	result: NativeTextGenerationResult,
+	timer: GenerationTimer,
+): GenerationMetadata {
+	const usage = generationUsage(request, result);
+	const truncated =
+		request.maxOutputTokens != null &&
+		usage.completionTokens >= request.maxOutputTokens;
+	return {
+		usage,
+		timing: timer.finish(),
+		finishReason: truncated ? "length" : "stop",
+	};
+}
+
+/**
+ * Finish reason implied by a failed generation, if it is one a caller may
+ * want to report (cancellation, timeout or a guardrail violation).
+ */
+export function finishReasonFromError(
+	error: unknown,
+): FinishReason | undefined {
+	if (!isTextGenerationError(error)) return undefined;
+	if (
+		error.code === "ERR_TEXT_GENERATION_CANCELED" ||
+		error.code === "ERR_TEXT_GENERATION_TIMEOUT"
+	) {
+		return "cancelled";
+	}
+	if (error.code === "ERR_TEXT_GENERATION_GUARDRAIL") return "guardrail";
+	return undefined;
+}
@@ -0,0 +1,114 @@
+import type {
+	JSONSchema,
+	ObjectSchema,
+	SchemaValidationIssue,
+} from "./AppleFoundationModels.types";
+import { ObjectGenerationError } from "./errors";
+import { extractJSON } from "./jsonExtract";
+import {
+	applySchemaDefaults,
+	resolveRef,
+	validateAgainstSchema,
+	validateJSONSchema,
+} from "./schema";
+import {
+	isStandardSchema,
+	standardSchemaToJSONSchema,
+	validateWithStandardSchema,
+} from "./standardSchema";
+
+// Ask the model to respond strictly with JSON conforming to the schema
+const OBJECT_GUIDANCE = `
+You must return ONLY valid JSON that conforms to this schema. No prose.
+If a field is not derivable, return a sensible default or an empty value that fits the schema constraints.
+`;
+
+/**
+ * A schema option resolved for structured generation: the `JSONSchema` sent to
+ * the model, and a decoder that turns raw model output into a validated value.
+ */
+export type PreparedObjectSchema<T> = {
+	schema: JSONSchema;
+	decode: (text: string) => Promise<T>;
+};
+
+// Decode failure carrying every schema violation, e.g. `/items/3/price must be <= 100, got 120`
+function schemaMismatchError(
+	issues: SchemaValidationIssue[],
+	output: string,
+): ObjectGenerationError {
+	const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+	return new ObjectGenerationError({
+		code: "ERR_OBJECT_GENERATION_DECODE_FAILED",
+		message: `Model output does not match schema: ${issues[0].message}${more}`,
+		issues,
+		output,
+	});
+}
+
+// Top-level type of the values `schema` accepts, when it is a container
+function containerType(schema: JSONSchema): "object" | "array" | undefined {
+	const root = "$ref" in schema ? resolveRef(schema.$ref, schema) : schema;
+	const type = root && "type" in root ? root.type : undefined;
+	return type === "object" || type === "array" ? type : undefined;
+}
+
+/**
+ * Resolve `schema` (a `JSONSchema` or a Standard Schema validator) and build
+ * its decoder: extract the JSON, fill in defaults, then validate. A Standard
+ * Schema validator has the final say and may transform the value.
+ *
+ * @throws `ObjectGenerationError` with `ERR_OBJECT_SCHEMA_INVALID` when the
+ * schema is unsupported.
+ */
+export function prepareObjectSchema<T>(
+	input: ObjectSchema,
+	{ strictJSON }: { strictJSON?: boolean } = {},
+): PreparedObjectSchema<T> {
+	const standard = isStandardSchema(input) ? input : undefined;
+	const schema = standard
+		? standardSchemaToJSONSchema(standard)
+		: (input as JSONSchema);
+	validateJSONSchema(schema);
+	const expect = containerType(schema);
+
+	const decode = async (text: string): Promise<T> => {
+		let value: unknown;
+		try {
+			value = extractJSON(text, { strict: strictJSON, expect });
+		} catch (parseError) {
+			throw new ObjectGenerationError({
+				code: "ERR_OBJECT_GENERATION_DECODE_FAILED",
+				message: "Model did not return valid JSON",
+				cause: parseError,
+				issues: [],
+				output: text,
+			});
+		}
+		const parsed = applySchemaDefaults(value, schema);
+		if (standard) {
+			const result = await validateWithStandardSchema(standard, parsed);
+			if (result.issues) {
+				throw schemaMismatchError(result.issues, text);
+			}
+			return result.value as T;
+		}
+		const issues = validateAgainstSchema(parsed, schema);
+		if (issues.length > 0) {
+			throw schemaMismatchError(issues, text);
+		}
+		return parsed as T;
+	};
+
+	return { schema, decode };
+}
+
+/**
+ * System instructions for structured generation: the caller's instructions
+ * followed by the JSON-only guidance.
+ */
+export function objectInstructions(instructions: string | undefined): string {
+	return [instructions?.trim(), OBJECT_GUIDANCE.trim()]
+		.filter((v): v is string => typeof v === "string" && v.length > 0)
+		.join("\n\n");
+}
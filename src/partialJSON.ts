@@ -0,0 +1,153 @@
+const INCOMPLETE = Symbol("incomplete");
+
+type Parsed = unknown | typeof INCOMPLETE;
+
+class PartialJSONParser {
+	private index = 0;
+
+	constructor(private readonly text: string) {}
+
+	parse(): Parsed {
+		this.skipWhitespace();
+		return this.value();
+	}
+
+	private skipWhitespace(): void {
+		while (this.index < this.text.length && /\s/.test(this.text[this.index])) {
+			this.index++;
+		}
+	}
+
+	private atEnd(): boolean {
+		return this.index >= this.text.length;
+	}
+
+	private value(): Parsed {
+		if (this.atEnd()) return INCOMPLETE;
+		const char = this.text[this.index];
+		if (char === "{") return this.object();
+		if (char === "[") return this.array();
+		if (char === '"') return this.string().value;
+		return this.scalar();
+	}
+
+	private object(): Parsed {
+		const result: Record<string, unknown> = {};
+		this.index++; // {
+		while (true) {
+			this.skipWhitespace();
+			if (this.atEnd()) return result;
+			if (this.text[this.index] === "}") {
+				this.index++;
+				return result;
+			}
+			if (this.text[this.index] === ",") {
+				this.index++;
+				continue;
+			}
+			if (this.text[this.index] !== '"') throw new SyntaxError("Expected key");
+			const key = this.string();
+			// A key still being written carries no value yet
+			if (!key.complete) return result;
+			this.skipWhitespace();
+			if (this.atEnd()) return result;
+			if (this.text[this.index] !== ":") throw new SyntaxError("Expected :");
+			this.index++;
+			this.skipWhitespace();
+			const value = this.value();
+			if (value !== INCOMPLETE) result[key.value] = value;
+			if (this.atEnd()) return result;
+		}
+	}
+
+	private array(): Parsed {
+		const result: unknown[] = [];
+		this.index++; // [
+		while (true) {
+			this.skipWhitespace();
+			if (this.atEnd()) return result;
+			if (this.text[this.index] === "]") {
+				this.index++;
+				return result;
+			}
+			if (this.text[this.index] === ",") {
+				this.index++;
+				continue;
+			}
+			const value = this.value();
+			if (value !== INCOMPLETE) result.push(value);
+			if (this.atEnd()) return result;
+		}
+	}
+
+	// Returns the decoded prefix of an unterminated string
+	private string(): { value: string; complete: boolean } {
+		let raw = "";
+		this.index++; // opening quote
+		while (!this.atEnd()) {
+			const char = this.text[this.index];
+			if (char === '"') {
+				this.index++;
+				return { value: JSON.parse(`"${raw}"`), complete: true };
+			}
+			if (char === "\\") {
+				// Keep escapes whole so a `\u00e9` split across chunks is never decoded halfway
+				const sequence = this.text.slice(
+					this.index,
+					this.index + (this.text[this.index + 1] === "u" ? 6 : 2),
+				);
+				if (
+					sequence.length < 2 ||
+					(sequence[1] === "u" && sequence.length < 6)
+				) {
+					break;
+				}
+				raw += sequence;
+				this.index += sequence.length;
+				continue;
+			}
+			raw += char;
+			this.index++;
+		}
+		this.index = this.text.length;
+		return { value: JSON.parse(`"${raw}"`), complete: false };
+	}
+
+	// Numbers and literals are only reported once they can no longer change
+	private scalar(): Parsed {
+		const match = /^[^\s,\]}]+/.exec(this.text.slice(this.index));
+		const token = match ? match[0] : "";
+		this.index += token.length;
+		if (this.atEnd()) return INCOMPLETE;
+		if (token === "true") return true;
+		if (token === "false") return false;
+		if (token === "null") return null;
+		const number = Number(token);
+		if (token === "" || Number.isNaN(number)) {
+			throw new SyntaxError(`Unexpected token "${token}"`);
+		}
+		return number;
+	}
+}
+
+/**
+ * Parse the prefix of a JSON document that is still being written.
+ *
+ * Unterminated objects and arrays are closed, strings are cut at the last
+ * complete character, and keys, numbers or literals that are still being
+ * written are left out. Returns `undefined` when no value has started yet or
+ * the text is not valid JSON so far.
+ *
+ * ```ts
+ * parsePartialJSON('{"name": "Ad'); // { name: "Ad" }
+ * parsePartialJSON('{"items": [1, 2'); // { items: [1] }
+ * ```
+ */
+export function parsePartialJSON(text: string): unknown {
+	try {
+		const value = new PartialJSONParser(text).parse();
+		return value === INCOMPLETE ? undefined : value;
+	} catch {
+		return undefined;
+	}
+}
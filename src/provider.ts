@@ -0,0 +1,163 @@
+import { Platform } from "react-native";
+
+import type {
+	LanguageModelProvider,
+	NativeTextGenerationResult,
+	NativeTextStreamOptions,
+	TextModelAvailability,
+	TextStreamChunk,
+} from "./AppleFoundationModels.types";
+import AppleFoundationModelsModule from "./AppleFoundationModelsModule.ios";
+import { TextGenerationError } from "./errors";
+
+const isAndroid = Platform.OS === "android";
+
+function unsupportedError(
+	message = "Text generation is not supported on Android.",
+): TextGenerationError {
+	return new TextGenerationError({
+		code: "ERR_TEXT_GENERATION_UNSUPPORTED",
+		message,
+	});
+}
+
+/**
+ * The default provider, backed by Apple's on-device model through the native
+ * module. Every other provider is only used when this one is unavailable.
+ */
+export const appleProvider: LanguageModelProvider = {
+	name: "apple",
+
+	async getAvailability(): Promise<TextModelAvailability> {
+		if (isAndroid) {
+			return {
+				status: "unavailable",
+				reasonCode: "unsupported",
+			};
+		}
+		try {
+			const anyModule = AppleFoundationModelsModule as unknown as {
+				getTextModelAvailability?: () => Promise<TextModelAvailability>;
+			};
+			if (typeof anyModule.getTextModelAvailability === "function") {
+				return await anyModule.getTextModelAvailability();
+			}
+		} catch {}
+		// Fallback using boolean
+		const ok = await AppleFoundationModelsModule.isTextModelAvailable();
+		return ok
+			? { status: "available" }
+			: {
+					status: "unavailable",
+					reasonCode: "unsupported",
+				};
+	},
+
+	async generateText(options) {
+		if (isAndroid) throw unsupportedError();
+		return AppleFoundationModelsModule.generateText(options);
+	},
+
+	async generateObject(options) {
+		if (isAndroid) throw unsupportedError();
+		if (typeof AppleFoundationModelsModule.generateObject !== "function") {
+			throw unsupportedError("Guided generation is not supported here.");
+		}
+		return AppleFoundationModelsModule.generateObject(options);
+	},
+
+	async streamText(options, onChunk) {
+		if (isAndroid) throw unsupportedError();
+		const subscription = AppleFoundationModelsModule.addListener(
+			"onTextStreamChunk",
+			(event) => {
+				if (event.requestId !== options.requestId) return;
+				onChunk({ delta: event.delta, text: event.text });
+			},
+		);
+		try {
+			return await AppleFoundationModelsModule.streamText(options);
+		} finally {
+			subscription.remove();
+		}
+	},
+
+	async restoreSession(options) {
+		if (isAndroid) throw unsupportedError();
+		return AppleFoundationModelsModule.restoreSession(options);
+	},
+
+	async cancelRequest(requestId) {
+		await AppleFoundationModelsModule.cancelRequest(requestId);
+	},
+
+	async releaseSession(sessionId) {
+		if (isAndroid) return;
+		await AppleFoundationModelsModule.releaseSession(sessionId);
+	},
+};
+
+let fallbackProvider: LanguageModelProvider | undefined;
+
+/**
+ * Register `provider` to serve `generateText`, `streamText`, `generateObject`,
+ * `streamObject`, `LLMSession` and `useLLMSession` whenever the on-device
+ * model is unavailable, for example on Android, web or ineligible devices.
+ * Replaces any previously registered fallback.
+ *
+ * @returns A function that unregisters `provider`.
+ */
+export function registerFallbackProvider(
+	provider: LanguageModelProvider,
+): () => void {
+	fallbackProvider = provider;
+	return () => {
+		if (fallbackProvider === provider) fallbackProvider = undefined;
+	};
+}
+
+async function isAvailable(provider: LanguageModelProvider): Promise<boolean> {
+	try {
+		return (await provider.getAvailability()).status === "available";
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * The provider the next request will use: the Apple model when it is
+ * available, otherwise the registered fallback when that is available. When
+ * neither is, requests go to the Apple model and fail as they would without a
+ * fallback.
+ */
+export async function getActiveProvider(): Promise<LanguageModelProvider> {
+	const fallback = fallbackProvider;
+	if (!fallback || (await isAvailable(appleProvider))) return appleProvider;
+	return (await isAvailable(fallback)) ? fallback : appleProvider;
+}
+
+/**
+ * Stream through `provider`, or deliver the whole response as a single chunk
+ * when it cannot stream.
+ */
+export async function providerStreamText(
+	provider: LanguageModelProvider,
+	options: NativeTextStreamOptions,
+	onChunk: (chunk: TextStreamChunk) => void,
+): Promise<NativeTextGenerationResult> {
+	if (provider.streamText) {
+		return provider.streamText(options, onChunk);
+	}
+	const result = await provider.generateText(options);
+	onChunk({ delta: result.text, text: result.text });
+	return result;
+}
+
+// The request may be running on either provider; ids are unique across both
+export async function cancelProviderRequest(requestId: string): Promise<void> {
+	await Promise.all(
+		[appleProvider, fallbackProvider].map((provider) =>
+			provider?.cancelRequest?.(requestId).catch(() => {}),
+		),
+	);
+}
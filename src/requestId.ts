@@ -0,0 +1,10 @@
+let counter = 0;
+
+/**
+ * Create an identifier used to correlate a JS request with native events.
+ * Unique within the lifetime of the JS runtime.
+ */
+export function createRequestId(): string {
+	counter += 1;
+	return `req_${Date.now().toString(36)}_${counter.toString(36)}`;
+}
@@ -0,0 +1,147 @@
+import type {
+	SessionConcurrency,
+	SessionQueueState,
+} from "./AppleFoundationModels.types";
+import { TextGenerationError } from "./errors";
+
+/**
+ * Hands a queued task's native requests to the queue, which starts the next
+ * task only once they have settled. Pass it as `runCancellable`'s `track`.
+ */
+export type TrackRequest = (request: Promise<unknown>) => void;
+
+type Waiting = {
+	start: () => void;
+	fail: (error: TextGenerationError) => void;
+};
+
+function busyError(message: string): TextGenerationError {
+	return new TextGenerationError({
+		code: "ERR_TEXT_GENERATION_BUSY",
+		message,
+	});
+}
+
+function canceledError(signal: AbortSignal | undefined): TextGenerationError {
+	return new TextGenerationError({
+		code: "ERR_TEXT_GENERATION_CANCELED",
+		message: "Text generation was canceled.",
+		cause: signal?.reason,
+	});
+}
+
+/**
+ * Runs one task at a time, in call order, applying `concurrency` to tasks
+ * started while another is running. A waiting task whose `signal` aborts is
+ * dropped with `ERR_TEXT_GENERATION_CANCELED`.
+ *
+ * A task that gives up on a native request, after an abort or timeout, keeps
+ * its slot until the request tracked through `track` has stopped, so the
+ * next task never overlaps it.
+ */
+export class RequestQueue {
+	private _running = false;
+	private readonly _waiting: Waiting[] = [];
+	private readonly _listeners = new Set<(state: SessionQueueState) => void>();
+
+	constructor(private readonly _concurrency: SessionConcurrency) {}
+
+	get state(): SessionQueueState {
+		return { running: this._running, pending: this._waiting.length };
+	}
+
+	addListener(listener: (state: SessionQueueState) => void): () => void {
+		this._listeners.add(listener);
+		return () => {
+			this._listeners.delete(listener);
+		};
+	}
+
+	run<T>(
+		task: (track: TrackRequest) => Promise<T>,
+		signal?: AbortSignal,
+	): Promise<T> {
+		if (!this._running) {
+			return this._start(task);
+		}
+		if (this._concurrency === "reject") {
+			return Promise.reject(
+				busyError("The session is busy with another request."),
+			);
+		}
+		if (this._concurrency === "replace") {
+			for (const replaced of this._waiting.splice(0)) {
+				replaced.fail(busyError("Replaced by a newer request."));
+			}
+		}
+
+		return new Promise<T>((resolve, reject) => {
+			const waiting: Waiting = {
+				start: () => {
+					signal?.removeEventListener("abort", onAbort);
+					this._start(task).then(resolve, reject);
+				},
+				fail: (error) => {
+					signal?.removeEventListener("abort", onAbort);
+					reject(error);
+				},
+			};
+			const onAbort = () => {
+				const index = this._waiting.indexOf(waiting);
+				if (index === -1) return;
+				this._waiting.splice(index, 1);
+				waiting.fail(canceledError(signal));
+				this._notify();
+			};
+			if (signal?.aborted) {
+				reject(canceledError(signal));
+				return;
+			}
+			signal?.addEventListener("abort", onAbort, { once: true });
+			this._waiting.push(waiting);
+			this._notify();
+		});
+	}
+
+	private async _start<T>(
+		task: (track: TrackRequest) => Promise<T>,
+	): Promise<T> {
+		this._running = true;
+		this._notify();
+		// Tracked requests still running, and whether the task has settled
+		let unsettled = 0;
+		let finished = false;
+		const releaseWhenDone = () => {
+			if (finished && unsettled === 0) this._next();
+		};
+		const track: TrackRequest = (request) => {
+			unsettled++;
+			const settle = () => {
+				unsettled--;
+				releaseWhenDone();
+			};
+			request.then(settle, settle);
+		};
+		try {
+			return await task(track);
+		} finally {
+			finished = true;
+			releaseWhenDone();
+		}
+	}
+
+	private _next(): void {
+		const next = this._waiting.shift();
+		this._running = false;
+		if (next) {
+			next.start();
+		} else {
+			this._notify();
+		}
+	}
+
+	private _notify(): void {
+		const state = this.state;
+		for (const listener of Array.from(this._listeners)) listener(state);
+	}
+}
@@ -0,0 +1,545 @@
+import type {
+	JSONSchema,
+	SchemaValidationIssue,
+} from "./AppleFoundationModels.types";
+import { ObjectGenerationError } from "./errors";
+
+const SCHEMA_TYPES = [
+	"string",
+	"number",
+	"integer",
+	"boolean",
+	"null",
+	"array",
+	"object",
+];
+
+/**
+ * Keywords that native guided generation (iOS 26+) turns into a
+ * `GenerationSchema`. `enum` and `const` are only native on strings.
+ *
+ * Schemas using anything else (`nullable`, `type: "null"`, `minLength`,
+ * `maxLength`, `additionalProperties`, `default`, `discriminator`, numeric or
+ * boolean `enum`/`const`) are handled by the prompt fallback instead: the
+ * schema is described to the model and the decoded JSON is checked with
+ * `validateAgainstSchema`.
+ */
+export const NATIVE_SCHEMA_KEYWORDS: ReadonlySet<string> = new Set([
+	"type",
+	"title",
+	"description",
+	"properties",
+	"required",
+	"items",
+	"minItems",
+	"maxItems",
+	"minimum",
+	"maximum",
+	"enum",
+	"const",
+	"pattern",
+	"anyOf",
+	"oneOf",
+	"$defs",
+	"$ref",
+]);
+
+type SchemaNode = Record<string, unknown>;
+
+function invalidSchema(): never {
+	throw new ObjectGenerationError({
+		code: "ERR_OBJECT_SCHEMA_INVALID",
+		message: "Schema is not a supported JSON schema.",
+	});
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+function isPrimitive(
+	value: unknown,
+): value is string | number | boolean | null {
+	return (
+		value === null ||
+		typeof value === "string" ||
+		typeof value === "number" ||
+		typeof value === "boolean"
+	);
+}
+
+// Only local references into the root `$defs` (or the root itself) are supported
+export function resolveRef(
+	ref: string,
+	root: JSONSchema,
+): JSONSchema | undefined {
+	if (ref === "#") return root;
+	const prefix = "#/$defs/";
+	if (!ref.startsWith(prefix)) return undefined;
+	return root.$defs?.[ref.slice(prefix.length)];
+}
+
+// Follow `$ref` chains to a concrete schema node
+function deref(schema: JSONSchema, root: JSONSchema): JSONSchema | undefined {
+	let current: JSONSchema | undefined = schema;
+	const seen = new Set<JSONSchema>();
+	while (current && "$ref" in current) {
+		if (seen.has(current)) return undefined;
+		seen.add(current);
+		current = resolveRef(current.$ref, root);
+	}
+	return current;
+}
+
+// Basic schema validator (subset)
+export function validateJSONSchema(
+	schema: JSONSchema,
+	root: JSONSchema = schema,
+): void {
+	if (!isPlainObject(schema)) {
+		invalidSchema();
+	}
+	const node = schema as SchemaNode;
+
+	if (node.$defs != null) {
+		// Definitions are resolved against the root only
+		if (schema !== root || !isPlainObject(node.$defs)) invalidSchema();
+		for (const def of Object.values(node.$defs)) {
+			validateJSONSchema(def as JSONSchema, root);
+		}
+	}
+
+	if ("$ref" in node) {
+		if (typeof node.$ref !== "string" || !resolveRef(node.$ref, root)) {
+			invalidSchema();
+		}
+		return;
+	}
+
+	if ("anyOf" in node || "oneOf" in node) {
+		const branches = node.anyOf ?? node.oneOf;
+		if (!Array.isArray(branches) || branches.length === 0) invalidSchema();
+		for (const branch of branches) {
+			validateJSONSchema(branch as JSONSchema, root);
+		}
+		if (node.discriminator != null) {
+			const propertyName = (node.discriminator as { propertyName?: unknown })
+				.propertyName;
+			if (!("oneOf" in node) || typeof propertyName !== "string") {
+				invalidSchema();
+			}
+			for (const branch of branches as JSONSchema[]) {
+				if (discriminatorValues(branch, propertyName, root) == null) {
+					invalidSchema();
+				}
+			}
+		}
+		return;
+	}
+
+	const t = node.type;
+	if (t === undefined && "const" in node) {
+		if (!isPrimitive(node.const)) invalidSchema();
+		return;
+	}
+	if (typeof t !== "string" || !SCHEMA_TYPES.includes(t)) {
+		invalidSchema();
+	}
+	if (t === "string" && node.pattern != null) {
+		if (typeof node.pattern !== "string") invalidSchema();
+		try {
+			RegExp(node.pattern);
+		} catch {
+			invalidSchema();
+		}
+	}
+	if (t === "array") {
+		validateJSONSchema(node.items as JSONSchema, root);
+	}
+	if (t === "object") {
+		const props = node.properties;
+		if (!props || typeof props !== "object") {
+			invalidSchema();
+		}
+		for (const key of Object.keys(props)) {
+			validateJSONSchema((props as Record<string, JSONSchema>)[key], root);
+		}
+	}
+}
+
+// Values of `propertyName` that select `branch` of a discriminated `oneOf`
+function discriminatorValues(
+	branch: JSONSchema,
+	propertyName: string,
+	root: JSONSchema,
+): readonly unknown[] | undefined {
+	const target = deref(branch, root);
+	if (!target || !("type" in target) || target.type !== "object") {
+		return undefined;
+	}
+	const propSchema = target.properties[propertyName];
+	const property = propSchema && (deref(propSchema, root) as SchemaNode);
+	if (!property) return undefined;
+	if ("const" in property) return [property.const];
+	if (Array.isArray(property.enum)) return property.enum;
+	return undefined;
+}
+
+/**
+ * Whether `schema` only uses keywords native guided generation understands.
+ * See `NATIVE_SCHEMA_KEYWORDS`.
+ */
+export function supportsNativeGuidedGeneration(schema: JSONSchema): boolean {
+	const node = schema as SchemaNode;
+	for (const key of Object.keys(node)) {
+		if (!NATIVE_SCHEMA_KEYWORDS.has(key)) return false;
+	}
+	if (("enum" in node || "const" in node) && node.type !== "string") {
+		return false;
+	}
+	const children: unknown[] = [
+		...Object.values((node.$defs as object | undefined) ?? {}),
+		...Object.values((node.properties as object | undefined) ?? {}),
+		...((node.anyOf as unknown[] | undefined) ?? []),
+		...((node.oneOf as unknown[] | undefined) ?? []),
+	];
+	if (node.items != null) children.push(node.items);
+	return children.every((child) =>
+		supportsNativeGuidedGeneration(child as JSONSchema),
+	);
+}
+
+/**
+ * Return a copy of `value` with missing object properties filled in from
+ * their schema `default`. Values that do not have the expected shape are
+ * returned unchanged so validation can report them.
+ */
+export function applySchemaDefaults(
+	value: unknown,
+	schema: JSONSchema,
+	root: JSONSchema = schema,
+): unknown {
+	const target = deref(schema, root);
+	if (!target || !("type" in target)) return value;
+	if (target.type === "array" && Array.isArray(value)) {
+		return value.map((item) => applySchemaDefaults(item, target.items, root));
+	}
+	if (target.type === "object" && isPlainObject(value)) {
+		const result: Record<string, unknown> = { ...value };
+		for (const [key, propSchema] of Object.entries(target.properties)) {
+			if (Object.hasOwn(result, key)) {
+				result[key] = applySchemaDefaults(result[key], propSchema, root);
+			} else if (propSchema.default !== undefined) {
+				result[key] = propSchema.default;
+			}
+		}
+		return result;
+	}
+	return value;
+}
+
+function matchesConst(value: unknown, schema: JSONSchema): boolean {
+	const node = schema as SchemaNode;
+	return !("const" in node) || node.const === value;
+}
+
+// RFC 6901 escaping for a single reference token
+function pointer(path: string, token: string | number): string {
+	return `${path}/${String(token).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+}
+
+function describe(value: unknown): string {
+	if (value === undefined) return "undefined";
+	const json = JSON.stringify(value);
+	return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+}
+
+function issue(
+	path: string,
+	keyword: string,
+	expected: unknown,
+	actual: unknown,
+	message: string,
+): SchemaValidationIssue {
+	return {
+		path,
+		keyword,
+		expected,
+		actual,
+		message: `${path || "/"} ${message}`,
+	};
+}
+
+function typeIssue(
+	path: string,
+	expected: string,
+	value: unknown,
+): SchemaValidationIssue[] {
+	return [
+		issue(
+			path,
+			"type",
+			expected,
+			value,
+			`must be ${expected}, got ${describe(value)}`,
+		),
+	];
+}
+
+/**
+ * Validate a decoded value against `schema`.
+ *
+ * Returns every violation found, each with a JSON Pointer `path` to the
+ * offending value (`""` is the root), the failing `keyword`, the `expected`
+ * constraint and the `actual` value. An empty list means the value is valid.
+ */
+export function validateAgainstSchema(
+	value: unknown,
+	schema: JSONSchema,
+	root: JSONSchema = schema,
+	path = "",
+): SchemaValidationIssue[] {
+	if (value === null && schema.nullable) return [];
+
+	if ("$ref" in schema) {
+		const target = resolveRef(schema.$ref, root);
+		if (!target) {
+			return [
+				issue(
+					path,
+					"$ref",
+					schema.$ref,
+					value,
+					`references unknown schema ${schema.$ref}`,
+				),
+			];
+		}
+		return validateAgainstSchema(value, target, root, path);
+	}
+	if ("anyOf" in schema) {
+		const matches = schema.anyOf.some(
+			(s) => validateAgainstSchema(value, s, root, path).length === 0,
+		);
+		return matches
+			? []
+			: [
+					issue(
+						path,
+						"anyOf",
+						schema.anyOf.length,
+						value,
+						"must match at least one schema in anyOf",
+					),
+				];
+	}
+	if ("oneOf" in schema) {
+		const propertyName = schema.discriminator?.propertyName;
+		if (propertyName != null) {
+			if (!isPlainObject(value)) return typeIssue(path, "object", value);
+			const branch = schema.oneOf.find((s) =>
+				discriminatorValues(s, propertyName, root)?.includes(
+					value[propertyName],
+				),
+			);
+			if (!branch) {
+				const allowed = schema.oneOf.flatMap(
+					(s) => discriminatorValues(s, propertyName, root) ?? [],
+				);
+				return [
+					issue(
+						pointer(path, propertyName),
+						"discriminator",
+						allowed,
+						value[propertyName],
+						`must be one of ${describe(allowed)}, got ${describe(value[propertyName])}`,
+					),
+				];
+			}
+			return validateAgainstSchema(value, branch, root, path);
+		}
+		const matches = schema.oneOf.filter(
+			(s) => validateAgainstSchema(value, s, root, path).length === 0,
+		).length;
+		return matches === 1
+			? []
+			: [
+					issue(
+						path,
+						"oneOf",
+						1,
+						matches,
+						`must match exactly one schema in oneOf, matched ${matches}`,
+					),
+				];
+	}
+	if (!matchesConst(value, schema)) {
+		const expected = (schema as SchemaNode).const;
+		return [
+			issue(
+				path,
+				"const",
+				expected,
+				value,
+				`must equal ${describe(expected)}, got ${describe(value)}`,
+			),
+		];
+	}
+	if (!("type" in schema)) return [];
+
+	const issues: SchemaValidationIssue[] = [];
+	switch (schema.type) {
+		case "string":
+			if (typeof value !== "string") return typeIssue(path, "string", value);
+			if (schema.minLength != null && value.length < schema.minLength)
+				issues.push(
+					issue(
+						path,
+						"minLength",
+						schema.minLength,
+						value,
+						`must have at least ${schema.minLength} characters`,
+					),
+				);
+			if (schema.maxLength != null && value.length > schema.maxLength)
+				issues.push(
+					issue(
+						path,
+						"maxLength",
+						schema.maxLength,
+						value,
+						`must have at most ${schema.maxLength} characters`,
+					),
+				);
+			if (schema.enum && !schema.enum.includes(value))
+				issues.push(
+					issue(
+						path,
+						"enum",
+						schema.enum,
+						value,
+						`must be one of ${describe(schema.enum)}, got ${describe(value)}`,
+					),
+				);
+			if (schema.pattern != null && !new RegExp(schema.pattern).test(value))
+				issues.push(
+					issue(
+						path,
+						"pattern",
+						schema.pattern,
+						value,
+						`must match pattern ${schema.pattern}`,
+					),
+				);
+			return issues;
+		case "number":
+		case "integer":
+			if (typeof value !== "number" || Number.isNaN(value))
+				return typeIssue(path, schema.type, value);
+			if (schema.type === "integer" && !Number.isInteger(value))
+				return typeIssue(path, "integer", value);
+			if (schema.minimum != null && value < schema.minimum)
+				issues.push(
+					issue(
+						path,
+						"minimum",
+						schema.minimum,
+						value,
+						`must be >= ${schema.minimum}, got ${value}`,
+					),
+				);
+			if (schema.maximum != null && value > schema.maximum)
+				issues.push(
+					issue(
+						path,
+						"maximum",
+						schema.maximum,
+						value,
+						`must be <= ${schema.maximum}, got ${value}`,
+					),
+				);
+			if (schema.enum && !schema.enum.includes(value))
+				issues.push(
+					issue(
+						path,
+						"enum",
+						schema.enum,
+						value,
+						`must be one of ${describe(schema.enum)}, got ${value}`,
+					),
+				);
+			return issues;
+		case "boolean":
+			return typeof value === "boolean"
+				? []
+				: typeIssue(path, "boolean", value);
+		case "null":
+			return value === null ? [] : typeIssue(path, "null", value);
+		case "array": {
+			if (!Array.isArray(value)) return typeIssue(path, "array", value);
+			if (schema.minItems != null && value.length < schema.minItems)
+				issues.push(
+					issue(
+						path,
+						"minItems",
+						schema.minItems,
+						value.length,
+						`must have at least ${schema.minItems} items, got ${value.length}`,
+					),
+				);
+			if (schema.maxItems != null && value.length > schema.maxItems)
+				issues.push(
+					issue(
+						path,
+						"maxItems",
+						schema.maxItems,
+						value.length,
+						`must have at most ${schema.maxItems} items, got ${value.length}`,
+					),
+				);
+			value.forEach((v, index) => {
+				issues.push(
+					...validateAgainstSchema(v, schema.items, root, pointer(path, index)),
+				);
+			});
+			return issues;
+		}
+		case "object": {
+			if (!isPlainObject(value)) return typeIssue(path, "object", value);
+			const required = new Set(schema.required ?? []);
+			for (const [k, s] of Object.entries(schema.properties)) {
+				const present = Object.hasOwn(value, k);
+				if (!present) {
+					if (required.has(k))
+						issues.push(
+							issue(
+								pointer(path, k),
+								"required",
+								true,
+								undefined,
+								"is required",
+							),
+						);
+					continue;
+				}
+				issues.push(
+					...validateAgainstSchema(value[k], s, root, pointer(path, k)),
+				);
+			}
+			if (schema.additionalProperties === false) {
+				for (const k of Object.keys(value)) {
+					if (!Object.hasOwn(schema.properties, k))
+						issues.push(
+							issue(
+								pointer(path, k),
+								"additionalProperties",
+								false,
+								value[k],
+								"is not allowed",
+							),
+						);
+				}
+			}
+			return issues;
+		}
+	}
+}
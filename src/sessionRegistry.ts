@@ -0,0 +1,175 @@
+import { type CreateLLMSessionOptions, LLMSession } from "./LLMSession";
+
+/**
+ * Options for `SessionRegistry`.
+ *
+ * - `maxSessions`: Most native sessions kept alive at once. When another one
+ *   starts, the least recently used idle session is released.
+ * - `idleTimeoutMs`: Release sessions that have not been used for this long.
+ */
+export type SessionRegistryOptions = {
+	maxSessions?: number;
+	idleTimeoutMs?: number;
+};
+
+/**
+ * A session tracked by a `SessionRegistry`. `released` sessions hold no native
+ * memory; they are rebuilt from their turns when used again.
+ */
+export type SessionRegistryEntry = {
+	session: LLMSession;
+	lastUsedAt: number;
+	released: boolean;
+};
+
+// `use` orders sessions by recency; timestamps can tie
+type Tracked = SessionRegistryEntry & { use: number; unsubscribe: () => void };
+
+/**
+ * Keeps track of live `LLMSession`s and bounds the native memory they use.
+ *
+ * Sessions are released, not destroyed, when evicted: their conversation is
+ * kept in JS and the native context is rebuilt on their next request. Busy
+ * sessions are never evicted.
+ *
+ * ```ts
+ * const registry = new SessionRegistry({ maxSessions: 3, idleTimeoutMs: 5 * 60_000 });
+ * const chat = await registry.create({ instructions: "Be concise." });
+ * ```
+ */
+export class SessionRegistry {
+	private readonly _maxSessions: number;
+	private readonly _idleTimeoutMs: number | undefined;
+	private readonly _entries = new Map<LLMSession, Tracked>();
+	private _timer: ReturnType<typeof setTimeout> | undefined;
+	private _uses = 0;
+
+	constructor({
+		maxSessions = Number.POSITIVE_INFINITY,
+		idleTimeoutMs,
+	}: SessionRegistryOptions = {}) {
+		this._maxSessions = Math.max(1, maxSessions);
+		this._idleTimeoutMs = idleTimeoutMs;
+	}
+
+	/**
+	 * Create a session and register it.
+	 */
+	async create(options: CreateLLMSessionOptions = {}): Promise<LLMSession> {
+		const session = await LLMSession.create(options);
+		this.register(session);
+		return session;
+	}
+
+	/**
+	 * Start tracking `session`. Registering it again has no effect.
+	 */
+	register(session: LLMSession): void {
+		if (this._entries.has(session)) return;
+		const unsubscribe = session.onQueueChange(() => {
+			const entry = this._entries.get(session);
+			if (!entry) return;
+			entry.lastUsedAt = Date.now();
+			entry.use = ++this._uses;
+			entry.released = false;
+			this._enforce();
+		});
+		this._entries.set(session, {
+			session,
+			lastUsedAt: Date.now(),
+			use: ++this._uses,
+			released: false,
+			unsubscribe,
+		});
+		this._enforce();
+	}
+
+	/**
+	 * Tracked sessions, most recently used first.
+	 */
+	list(): SessionRegistryEntry[] {
+		return Array.from(this._entries.values())
+			.sort((a, b) => b.use - a.use)
+			.map(({ session, lastUsedAt, released }) => ({
+				session,
+				lastUsedAt,
+				released,
+			}));
+	}
+
+	get size(): number {
+		return this._entries.size;
+	}
+
+	/**
+	 * Stop tracking `session` and destroy it, releasing its native session.
+	 */
+	remove(session: LLMSession): void {
+		const entry = this._entries.get(session);
+		if (!entry) return;
+		entry.unsubscribe();
+		this._entries.delete(session);
+		session.destroy();
+		this._enforce();
+	}
+
+	/**
+	 * Destroy every tracked session.
+	 */
+	clear(): void {
+		for (const session of Array.from(this._entries.keys())) {
+			this.remove(session);
+		}
+	}
+
+	private _isIdle({ session }: Tracked): boolean {
+		const { running, pending } = session.queueState;
+		return !running && pending === 0;
+	}
+
+	// Holds a native session that can be released
+	private _isLive(entry: Tracked): boolean {
+		return !entry.released && entry.session.sessionId !== undefined;
+	}
+
+	private _release(entry: Tracked): void {
+		entry.session.release();
+		entry.released = true;
+	}
+
+	private _enforce(): void {
+		const now = Date.now();
+		const live = Array.from(this._entries.values())
+			.filter((entry) => this._isLive(entry))
+			.sort((a, b) => a.use - b.use);
+
+		let count = live.length;
+		for (const entry of live) {
+			if (!this._isIdle(entry)) continue;
+			const expired =
+				this._idleTimeoutMs != null &&
+				now - entry.lastUsedAt >= this._idleTimeoutMs;
+			if (expired || count > this._maxSessions) {
+				this._release(entry);
+				count--;
+			}
+		}
+		this._scheduleExpiry(now);
+	}
+
+	// Wake up when the next idle session reaches `idleTimeoutMs`
+	private _scheduleExpiry(now: number): void {
+		if (this._timer) clearTimeout(this._timer);
+		this._timer = undefined;
+		if (this._idleTimeoutMs == null) return;
+		const idleTimeoutMs = this._idleTimeoutMs;
+		const next = Array.from(this._entries.values())
+			.filter((entry) => this._isLive(entry) && this._isIdle(entry))
+			.reduce(
+				(soonest, entry) => Math.min(soonest, entry.lastUsedAt + idleTimeoutMs),
+				Number.POSITIVE_INFINITY,
+			);
+		if (next === Number.POSITIVE_INFINITY) return;
+		this._timer = setTimeout(() => this._enforce(), Math.max(0, next - now));
+	}
+}
@@ -0,0 +1,583 @@
+import type {
+	JSONSchema,
+	SchemaValidationIssue,
+} from "./AppleFoundationModels.types";
+import { ObjectGenerationError } from "./errors";
+import { validateJSONSchema } from "./schema";
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by
+ * Zod, Valibot, ArkType and others. Copied here as the spec recommends so the
+ * package does not depend on any validation library.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+	export interface Props<Input = unknown, Output = Input> {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) => Result<Output> | Promise<Result<Output>>;
+		readonly types?: Types<Input, Output> | undefined;
+	}
+
+	export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+	export interface SuccessResult<Output> {
+		readonly value: Output;
+		readonly issues?: undefined;
+	}
+
+	export interface FailureResult {
+		readonly issues: readonly Issue[];
+	}
+
+	export interface Issue {
+		readonly message: string;
+		readonly path?: readonly (PropertyKey | PathSegment)[] | undefined;
+	}
+
+	export interface PathSegment {
+		readonly key: PropertyKey;
+	}
+
+	export interface Types<Input = unknown, Output = Input> {
+		readonly input: Input;
+		readonly output: Output;
+	}
+
+	export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+		Schema["~standard"]["types"]
+	>["input"];
+
+	export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+		Schema["~standard"]["types"]
+	>["output"];
+}
+
+type Node = Record<string, unknown>;
+
+class UnsupportedSchemaFeature extends Error {}
+
+function unsupported(feature: string): never {
+	throw new UnsupportedSchemaFeature(feature);
+}
+
+function schemaInvalidError(
+	message: string,
+	cause?: unknown,
+): ObjectGenerationError {
+	return new ObjectGenerationError({
+		code: "ERR_OBJECT_SCHEMA_INVALID",
+		message,
+		cause,
+	});
+}
+
+function isRecord(value: unknown): value is Node {
+	return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+	return (
+		(typeof value === "object" || typeof value === "function") &&
+		value != null &&
+		isRecord((value as Node)["~standard"]) &&
+		typeof ((value as Node)["~standard"] as Node).validate === "function"
+	);
+}
+
+// Keywords that carry no constraint and can be dropped safely
+const ANNOTATION_KEYWORDS = new Set([
+	"$schema",
+	"$id",
+	"$comment",
+	"examples",
+	"readOnly",
+	"writeOnly",
+	"deprecated",
+]);
+
+/**
+ * Convert a draft-07 / 2020-12 JSON Schema, as produced by schema libraries,
+ * into this package's `JSONSchema` subset.
+ *
+ * @throws `ObjectGenerationError` with `ERR_OBJECT_SCHEMA_INVALID` naming the
+ * first keyword that cannot be represented.
+ */
+export function normalizeJSONSchema(raw: unknown): JSONSchema {
+	try {
+		const result = normalizeNode(raw, true) as JSONSchema;
+		validateJSONSchema(result);
+		return result;
+	} catch (error) {
+		if (error instanceof UnsupportedSchemaFeature) {
+			throw schemaInvalidError(
+				`Schema uses an unsupported feature: ${error.message}`,
+				error,
+			);
+		}
+		throw schemaInvalidError("Schema could not be converted.", error);
+	}
+}
+
+function normalizeRef(ref: string): string {
+	if (ref.startsWith("#/definitions/")) {
+		return `#/$defs/${ref.slice("#/definitions/".length)}`;
+	}
+	return ref;
+}
+
+function normalizeNode(raw: unknown, isRoot = false): Node {
+	if (raw === true || (isRecord(raw) && Object.keys(raw).length === 0)) {
+		unsupported("schemas accepting any value");
+	}
+	if (!isRecord(raw)) unsupported("non-object schema");
+
+	const out: Node = {};
+	let type = raw.type;
+
+	// `type: ["string", "null"]` becomes `nullable`
+	if (Array.isArray(type)) {
+		const types = type.filter((t) => t !== "null");
+		if (types.length !== 1) unsupported(`type ${JSON.stringify(type)}`);
+		if (types.length < type.length) out.nullable = true;
+		type = types[0];
+	}
+
+	for (const [key, value] of Object.entries(raw)) {
+		switch (key) {
+			case "type":
+				out.type = type;
+				break;
+			case "title":
+			case "description":
+			case "default":
+			case "nullable":
+			case "const":
+			case "minLength":
+			case "maxLength":
+			case "pattern":
+			case "minimum":
+			case "maximum":
+			case "minItems":
+			case "maxItems":
+				out[key] = value;
+				break;
+			case "enum": {
+				if (!Array.isArray(value)) unsupported("enum");
+				const values = value.filter((v) => v !== null);
+				if (values.length < value.length) out.nullable = true;
+				out.enum = values;
+				break;
+			}
+			case "required":
+				out.required = value;
+				break;
+			case "additionalProperties":
+				if (value === false) out.additionalProperties = false;
+				else if (value !== true && !(isRecord(value) && isEmpty(value)))
+					unsupported("additionalProperties with a schema (records)");
+				break;
+			case "properties":
+				out.properties = Object.fromEntries(
+					Object.entries(value as Node).map(([k, v]) => [k, normalizeNode(v)]),
+				);
+				break;
+			case "items":
+				if (!isRecord(value)) unsupported("tuple items");
+				out.items = normalizeNode(value);
+				break;
+			case "anyOf":
+			case "oneOf":
+				out[key] = (value as unknown[]).map((v) => normalizeNode(v));
+				break;
+			case "discriminator":
+				out.discriminator = value;
+				break;
+			case "$ref":
+				out.$ref = normalizeRef(value as string);
+				break;
+			case "$defs":
+			case "definitions":
+				if (!isRoot) unsupported(`nested ${key}`);
+				out.$defs = Object.fromEntries(
+					Object.entries(value as Node).map(([k, v]) => [k, normalizeNode(v)]),
+				);
+				break;
+			case "format":
+				// A pattern, when present, already enforces the format
+				if (raw.pattern == null) unsupported(`format "${value}"`);
+				break;
+			default:
+				if (!ANNOTATION_KEYWORDS.has(key)) unsupported(key);
+		}
+	}
+
+	// anyOf of `{ type: "null" }` and one other schema collapses to `nullable`
+	const branches = out.anyOf as Node[] | undefined;
+	if (branches && branches.length === 2) {
+		const other = branches.find((b) => b.type !== "null");
+		if (other && branches.some((b) => b.type === "null" && isEmptyExcept(b))) {
+			delete out.anyOf;
+			return { ...other, ...out, nullable: true };
+		}
+	}
+	// An untyped `enum` takes its type from its values
+	if (out.type == null && Array.isArray(out.enum)) {
+		const { enum: values, ...rest } = out;
+		return { ...rest, ...enumToJSONSchema(values) };
+	}
+	// Objects without declared properties (e.g. `z.object({})`) still need them
+	if (out.type === "object" && out.properties == null) out.properties = {};
+	return out;
+}
+
+function isEmpty(value: Node): boolean {
+	return Object.keys(value).length === 0;
+}
+
+function isEmptyExcept(value: Node): boolean {
+	return Object.keys(value).every((k) => k === "type");
+}
+
+type ZodLike = {
+	_def?: Node;
+	_zod?: { def: Node };
+};
+
+// Zod v4 keeps the definition on `_zod.def` with a lowercase `type`;
+// Zod v3 keeps it on `_def` with a `typeName` such as "ZodString".
+function zodDef(schema: unknown): { kind: string; def: Node } {
+	const candidate = schema as ZodLike;
+	if (candidate?._zod?.def) {
+		return { kind: String(candidate._zod.def.type), def: candidate._zod.def };
+	}
+	if (candidate?._def && typeof candidate._def.typeName === "string") {
+		const name = candidate._def.typeName.replace(/^Zod/, "");
+		return {
+			kind: name.charAt(0).toLowerCase() + name.slice(1),
+			def: candidate._def,
+		};
+	}
+	return unsupported("value that is not a Zod schema");
+}
+
+type CheckInfo = { kind: string; value?: unknown; inclusive?: boolean } & Node;
+
+// Normalize v3 (`{ kind, value }`) and v4 (`_zod.def.check`) checks to one shape
+function zodChecks(def: Node): CheckInfo[] {
+	const checks = (def.checks as unknown[] | undefined) ?? [];
+	return checks.map((check) => {
+		const v4 = (check as ZodLike)._zod?.def;
+		if (v4) return { ...v4, kind: String(v4.check) } as CheckInfo;
+		return check as CheckInfo;
+	});
+}
+
+// Values of a TypeScript enum object, without the reverse mappings numeric
+// members add (`{ A: 0, "0": "A" }`)
+function enumValues(entries: Node): unknown[] {
+	const numbers = Object.values(entries).filter((v) => typeof v === "number");
+	return Object.entries(entries)
+		.filter(([key]) => !numbers.includes(Number(key)))
+		.map(([, value]) => value);
+}
+
+// One `enum` per value type; enums mixing types become an `anyOf` of them
+function enumToJSONSchema(values: unknown[]): Node {
+	const byType = new Map<string, unknown[]>();
+	for (const value of values) {
+		const type = typeof value;
+		if (type !== "string" && type !== "number") {
+			unsupported(`enum value ${JSON.stringify(value)}`);
+		}
+		byType.set(type, [...(byType.get(type) ?? []), value]);
+	}
+	const branches = Array.from(byType, ([type, typed]) => ({
+		type,
+		enum: typed,
+	}));
+	return branches.length === 1 ? branches[0] : { anyOf: branches };
+}
+
+function zodToJSONSchema(schema: unknown): Node {
+	const out = zodTypeToJSONSchema(schema);
+	// Both versions expose `.describe()` text as `description`
+	const description = (schema as { description?: unknown }).description;
+	return typeof description === "string" ? { ...out, description } : out;
+}
+
+function zodTypeToJSONSchema(schema: unknown): Node {
+	const { kind, def } = zodDef(schema);
+	switch (kind) {
+		case "string": {
+			const out: Node = { type: "string" };
+			// Zod v4 format schemas such as `z.email()` carry the format on the definition
+			if (def.format != null) unsupported(`string format "${def.format}"`);
+			for (const check of zodChecks(def)) {
+				switch (check.kind) {
+					case "min":
+					case "min_length":
+						out.minLength = check.value ?? check.minimum;
+						break;
+					case "max":
+					case "max_length":
+						out.maxLength = check.value ?? check.maximum;
+						break;
+					case "length":
+					case "length_equals":
+						out.minLength = check.value ?? check.length;
+						out.maxLength = check.value ?? check.length;
+						break;
+					case "regex":
+						out.pattern = (check.regex as RegExp).source;
+						break;
+					case "string_format":
+						if (check.format !== "regex")
+							unsupported(`string format "${check.format}"`);
+						out.pattern = (check.pattern as RegExp).source;
+						break;
+					default:
+						unsupported(`string check "${check.kind}"`);
+				}
+			}
+			return out;
+		}
+		case "number": {
+			const out: Node = { type: "number" };
+			for (const check of zodChecks(def)) {
+				switch (check.kind) {
+					case "int":
+						out.type = "integer";
+						break;
+					case "number_format":
+						if (!String(check.format).includes("int"))
+							unsupported(`number format "${check.format}"`);
+						out.type = "integer";
+						break;
+					case "min":
+					case "greater_than":
+						if (check.inclusive === false) unsupported("exclusive minimum");
+						out.minimum = check.value;
+						break;
+					case "max":
+					case "less_than":
+						if (check.inclusive === false) unsupported("exclusive maximum");
+						out.maximum = check.value;
+						break;
+					default:
+						unsupported(`number check "${check.kind}"`);
+				}
+			}
+			// Zod v4 marks `z.int()` through the format on the definition itself
+			if (String(def.format ?? "").includes("int")) out.type = "integer";
+			return out;
+		}
+		case "boolean":
+			return { type: "boolean" };
+		case "null":
+			return { type: "null" };
+		case "literal": {
+			const values = (def.values as unknown[] | undefined) ?? [def.value];
+			if (values.length === 1) return { const: values[0] };
+			return { anyOf: values.map((value) => ({ const: value })) };
+		}
+		case "enum":
+		case "nativeEnum":
+			return enumToJSONSchema(
+				Array.isArray(def.values)
+					? def.values
+					: enumValues((def.entries ?? def.values) as Node),
+			);
+		case "array": {
+			const out: Node = {
+				type: "array",
+				items: zodToJSONSchema(def.element ?? def.type),
+			};
+			const min = (def.minLength as { value?: number } | null)?.value;
+			const max = (def.maxLength as { value?: number } | null)?.value;
+			if (min != null) out.minItems = min;
+			if (max != null) out.maxItems = max;
+			for (const check of zodChecks(def)) {
+				if (check.kind === "min_length") out.minItems = check.minimum;
+				else if (check.kind === "max_length") out.maxItems = check.maximum;
+				else unsupported(`array check "${check.kind}"`);
+			}
+			return out;
+		}
+		case "object": {
+			const shape = (
+				typeof def.shape === "function" ? def.shape() : def.shape
+			) as Node;
+			const properties: Record<string, Node> = {};
+			const required: string[] = [];
+			for (const [key, value] of Object.entries(shape)) {
+				const { kind: childKind } = zodDef(value);
+				properties[key] = zodToJSONSchema(value);
+				if (childKind !== "optional" && childKind !== "default") {
+					required.push(key);
+				}
+			}
+			const out: Node = { type: "object", properties, required };
+			// v3 marks `.strict()` through `unknownKeys`, v4 through a `never` catchall
+			const strict =
+				"unknownKeys" in def
+					? def.unknownKeys === "strict"
+					: def.catchall != null && zodDef(def.catchall).kind === "never";
+			if (strict) {
+				out.additionalProperties = false;
+			}
+			return out;
+		}
+		case "optional":
+			return zodToJSONSchema(def.innerType);
+		case "nullable":
+			return { ...zodToJSONSchema(def.innerType), nullable: true };
+		case "default": {
+			const value =
+				typeof def.defaultValue === "function"
+					? def.defaultValue()
+					: def.defaultValue;
+			return { ...zodToJSONSchema(def.innerType), default: value };
+		}
+		case "union":
+		case "discriminatedUnion": {
+			const options = (
+				Array.isArray(def.options)
+					? def.options
+					: Array.from((def.options as Map<unknown, unknown>).values())
+			) as unknown[];
+			const branches = options.map(zodToJSONSchema);
+			if (typeof def.discriminator === "string") {
+				return {
+					oneOf: branches,
+					discriminator: { propertyName: def.discriminator },
+				};
+			}
+			return { anyOf: branches };
+		}
+		// The model must produce the input side; the user's schema applies the rest
+		case "effects":
+			return zodToJSONSchema(def.schema);
+		case "pipe":
+		case "pipeline":
+			return zodToJSONSchema(def.in);
+		case "readonly":
+		case "branded":
+			return zodToJSONSchema(def.innerType ?? def.type);
+		default:
+			return unsupported(`Zod type "${kind}"`);
+	}
+}
+
+/**
+ * Convert a Standard Schema validator into the internal `JSONSchema` used for
+ * native guided generation.
+ *
+ * Uses the schema's own JSON Schema export when it provides one
+ * (`~standard.jsonSchema`, `toJSONSchema()` or `toJsonSchema()`), and
+ * otherwise understands Zod (v3 and v4) definitions directly.
+ *
+ * @throws `ObjectGenerationError` with `ERR_OBJECT_SCHEMA_INVALID` when the
+ * schema uses a feature that cannot be represented, or comes from an unknown
+ * library.
+ */
+export function standardSchemaToJSONSchema(
+	schema: StandardSchemaV1,
+): JSONSchema {
+	const props = schema["~standard"] as StandardSchemaV1.Props & {
+		jsonSchema?: { input?: (options: { target: string }) => unknown };
+	};
+	const source = schema as unknown as {
+		toJSONSchema?: () => unknown;
+		toJsonSchema?: () => unknown;
+	};
+
+	if (typeof props.jsonSchema?.input === "function") {
+		return normalizeJSONSchema(
+			props.jsonSchema.input({ target: "draft-2020-12" }),
+		);
+	}
+	if (typeof source.toJSONSchema === "function") {
+		return normalizeJSONSchema(source.toJSONSchema());
+	}
+	if (typeof source.toJsonSchema === "function") {
+		return normalizeJSONSchema(source.toJsonSchema());
+	}
+	if (props.vendor === "zod") {
+		try {
+			return normalizeJSONSchema(zodToJSONSchema(schema));
+		} catch (error) {
+			if (error instanceof UnsupportedSchemaFeature) {
+				throw schemaInvalidError(
+					`Schema uses an unsupported feature: ${error.message}`,
+					error,
+				);
+			}
+			throw error;
+		}
+	}
+	throw schemaInvalidError(
+		`Cannot convert "${props.vendor}" schemas to JSON Schema. Pass a JSONSchema instead.`,
+	);
+}
+
+// RFC 6901 pointer from a Standard Schema issue path
+function issuePointer(path: StandardSchemaV1.Issue["path"]): string {
+	return (path ?? [])
+		.map((segment) =>
+			typeof segment === "object" && segment != null && "key" in segment
+				? segment.key
+				: segment,
+		)
+		.map((key) => `/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`)
+		.join("");
+}
+
+function valueAt(
+	value: unknown,
+	path: StandardSchemaV1.Issue["path"],
+): unknown {
+	let current = value;
+	for (const segment of path ?? []) {
+		const key =
+			typeof segment === "object" && segment != null && "key" in segment
+				? segment.key
+				: segment;
+		if (current == null || typeof current !== "object") return undefined;
+		current = (current as Record<PropertyKey, unknown>)[key];
+	}
+	return current;
+}
+
+/**
+ * Validate `value` with the user's Standard Schema, mapping failures to
+ * `SchemaValidationIssue`s so they surface like built-in schema errors.
+ */
+export async function validateWithStandardSchema<Output>(
+	schema: StandardSchemaV1<unknown, Output>,
+	value: unknown,
+): Promise<
+	{ value: Output; issues?: undefined } | { issues: SchemaValidationIssue[] }
+> {
+	const result = await schema["~standard"].validate(value);
+	if (!result.issues) {
+		return { value: result.value };
+	}
+	return {
+		issues: result.issues.map((issue) => {
+			const path = issuePointer(issue.path);
+			return {
+				path,
+				keyword: schema["~standard"].vendor,
+				expected: undefined,
+				actual: valueAt(value, issue.path),
+				message: `${path || "/"}: ${issue.message}`,
+			};
+		}),
+	};
+}
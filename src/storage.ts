@@ -0,0 +1,62 @@
+/**
+ * Minimal async key-value store used to persist session history.
+ *
+ * The shape matches `@react-native-async-storage/async-storage`, so most
+ * storage libraries fit directly or through `createAsyncStorageAdapter`.
+ */
+export type StorageAdapter = {
+	getItem(key: string): Promise<string | null>;
+	setItem(key: string, value: string): Promise<void>;
+	removeItem(key: string): Promise<void>;
+};
+
+/**
+ * Storage that lives only as long as the JS runtime. Useful for tests and
+ * for sharing history between screens without writing to disk.
+ */
+export function createMemoryStorage(
+	initial: Record<string, string> = {},
+): StorageAdapter {
+	const items = new Map(Object.entries(initial));
+	return {
+		async getItem(key) {
+			return items.get(key) ?? null;
+		},
+		async setItem(key, value) {
+			items.set(key, value);
+		},
+		async removeItem(key) {
+			items.delete(key);
+		},
+	};
+}
+
+/**
+ * Wrap an AsyncStorage-compatible object, optionally namespacing every key
+ * with `prefix` so session data does not collide with the app's own keys.
+ *
+ * ```ts
+ * import AsyncStorage from "@react-native-async-storage/async-storage";
+ * const storage = createAsyncStorageAdapter(AsyncStorage, { prefix: "chat:" });
+ * ```
+ */
+export function createAsyncStorageAdapter(
+	asyncStorage: {
+		getItem(key: string): Promise<string | null | undefined>;
+		setItem(key: string, value: string): Promise<unknown>;
+		removeItem(key: string): Promise<unknown>;
+	},
+	{ prefix = "" }: { prefix?: string } = {},
+): StorageAdapter {
+	return {
+		async getItem(key) {
+			return (await asyncStorage.getItem(prefix + key)) ?? null;
+		},
+		async setItem(key, value) {
+			await asyncStorage.setItem(prefix + key, value);
+		},
+		async removeItem(key) {
+			await asyncStorage.removeItem(prefix + key);
+		},
+	};
+}
@@ -0,0 +1,188 @@
+import { Platform } from "react-native";
+
+import type {
+	DeepPartial,
+	InferObjectSchema,
+	ObjectGenerationResult,
+	ObjectSchema,
+	StreamObjectOptions,
+} from "./AppleFoundationModels.types";
+import {
+	isTextGenerationError,
+	ObjectGenerationError,
+	toObjectGenerationError,
+} from "./errors";
+import {
+	objectInstructions,
+	type PreparedObjectSchema,
+	prepareObjectSchema,
+} from "./objectSchema";
+import { parsePartialJSON } from "./partialJSON";
+import {
+	appleProvider,
+	getActiveProvider,
+	providerStreamText,
+} from "./provider";
+import { createTextStream } from "./streamText";
+
+const isAndroid = Platform.OS === "android";
+
+/**
+ * An in-flight streamed object generation.
+ *
+ * Iterate with `for await` to receive progressively more complete partial
+ * objects as the model writes its JSON. The last value yielded matches the
+ * final object, validated against the schema. `result` resolves with that object,
+ * the `sessionId` and generation metadata, and rejects with an `ObjectGenerationError` (or a
+ * `TextGenerationError` on cancellation or timeout).
+ *
+ * A stream can be iterated once; partials are not replayed.
+ */
+export type ObjectStream<T> = AsyncIterable<DeepPartial<T>> & {
+	result: Promise<ObjectGenerationResult<T>>;
+};
+
+function normalizeError(error: unknown): unknown {
+	if (
+		isTextGenerationError(error) &&
+		(error.code === "ERR_TEXT_GENERATION_CANCELED" ||
+			error.code === "ERR_TEXT_GENERATION_TIMEOUT")
+	) {
+		return error;
+	}
+	return toObjectGenerationError(error);
+}
+
+function failedStream<T>(error: unknown): ObjectStream<T> {
+	const result = Promise.reject(error);
+	result.catch(() => {});
+	return {
+		result,
+		[Symbol.asyncIterator]: () => ({ next: () => Promise.reject(error) }),
+	};
+}
+
+// Skip fences or prose the model may write before the JSON starts
+function jsonStart(text: string): number {
+	const object = text.indexOf("{");
+	const array = text.indexOf("[");
+	if (object === -1) return array;
+	if (array === -1) return object;
+	return Math.min(object, array);
+}
+
+/**
+ * Stream a structured object matching `schema`, yielding partial objects as
+ * they are parsed from the model's streamed JSON.
+ *
+ * Accepts the same schemas as `generateObject`. The JSON is produced by
+ * prompting with the schema and validated once the stream completes, so
+ * partials may not satisfy the schema yet.
+ *
+ * ```ts
+ * const stream = streamObject({ prompt, schema });
+ * for await (const partial of stream) setForm(partial);
+ * const { object } = await stream.result;
+ * ```
+ */
+export function streamObject<const S extends ObjectSchema>(
+	options: StreamObjectOptions<S>,
+): ObjectStream<InferObjectSchema<S>>;
+export function streamObject<T = unknown>(
+	options: StreamObjectOptions,
+): ObjectStream<T>;
+export function streamObject<T = unknown>(
+	options: StreamObjectOptions,
+): ObjectStream<T> {
+	const prompt = options.prompt?.trim();
+	let prepared: PreparedObjectSchema<T>;
+	try {
+		if (!prompt) {
+			throw new ObjectGenerationError({
+				code: "ERR_OBJECT_PROMPT_INVALID",
+				message: "Prompt must be a non-empty string.",
+			});
+		}
+		prepared = prepareObjectSchema<T>(options.schema, {
+			strictJSON: options.strictJSON,
+		});
+	} catch (error) {
+		return failedStream(toObjectGenerationError(error));
+	}
+
+	const { schema, decode } = prepared;
+	const system = `${objectInstructions(options.instructions)}\n\nSchema: ${JSON.stringify(schema)}`;
+	const providerPromise = getActiveProvider();
+	const textStream = createTextStream(
+		async (requestId, onChunk) =>
+			providerStreamText(
+				await providerPromise,
+				{
+					prompt,
+					system,
+					sessionId: options.sessionId,
+					// keep temperature conservative for structure
+					temperature: 0.2,
+					maxOutputTokens: 512,
+					requestId,
+				},
+				onChunk,
+			),
+		{
+			signal: options.signal,
+			timeoutMs: options.timeoutMs,
+			request: () => ({ prompt, system, maxOutputTokens: 512 }),
+		},
+	);
+
+	const result = (async (): Promise<ObjectGenerationResult<T>> => {
+		try {
+			// Text streaming fails too; report it as an object generation error
+			if (isAndroid && (await providerPromise) === appleProvider) {
+				throw new ObjectGenerationError({
+					code: "ERR_OBJECT_GENERATION_UNSUPPORTED",
+					message: "Structured generation is not supported on Android.",
+				});
+			}
+			const { text, sessionId, usage, timing, finishReason } =
+				await textStream.result;
+			return {
+				object: await decode(text),
+				sessionId,
+				attempts: 1,
+				usage,
+				timing,
+				finishReason,
+			};
+		} catch (error) {
+			throw normalizeError(error);
+		}
+	})();
+	// Consumers that only iterate still observe failures through the iterator
+	result.catch(() => {});
+
+	return {
+		result,
+		async *[Symbol.asyncIterator]() {
+			let last: string | undefined;
+			try {
+				for await (const chunk of textStream) {
+					const start = jsonStart(chunk.text);
+					if (start === -1) continue;
+					const partial = parsePartialJSON(chunk.text.slice(start));
+					if (partial === undefined) continue;
+					// Only yield when something new was parsed
+					const serialized = JSON.stringify(partial);
+					if (serialized === last) continue;
+					last = serialized;
+					yield partial as DeepPartial<T>;
+				}
+			} catch {
+				// The text stream's failure is reported, normalized, by `result`
+			}
+			const { object } = await result;
+			// The last partial is usually the complete object already
+			if (JSON.stringify(object) !== last) yield object as DeepPartial<T>;
+		},
+	};
+}
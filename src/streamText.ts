@@ -0,0 +1,177 @@
+import type {
+	NativeTextGenerationResult,
+	TextGenerationOptions,
+	TextGenerationResult,
+	TextStreamChunk,
+} from "./AppleFoundationModels.types";
+import { runCancellable } from "./cancellation";
+import { TextGenerationError, toTextGenerationError } from "./errors";
+import {
+	type GenerationRequestInfo,
+	generationMetadata,
+	startGenerationTimer,
+} from "./metadata";
+import { getActiveProvider, providerStreamText } from "./provider";
+import { createRequestId } from "./requestId";
+import type { TrackRequest } from "./requestQueue";
+
+/**
+ * An in-flight streamed generation.
+ *
+ * Iterate with `for await` to receive `TextStreamChunk`s as the model produces
+ * them. `result` resolves with the complete text, `sessionId`, usage, timing
+ * (including time to first token) and `finishReason` once the generation
+ * finishes, and rejects with a `TextGenerationError` on failure
+ * (`ERR_TEXT_GENERATION_CANCELED` when the request's `signal` is aborted,
+ * `ERR_TEXT_GENERATION_TIMEOUT` when `timeoutMs` elapses).
+ *
+ * A stream can be iterated once; chunks are not replayed.
+ */
+export type TextStream = AsyncIterable<TextStreamChunk> & {
+	result: Promise<TextGenerationResult>;
+};
+
+/**
+ * Start a request via `run` under a fresh request id; `run` reports chunks
+ * through `onChunk`, which buffers them until the consumer pulls them.
+ * `request` describes what was sent, read once the generation completes, so
+ * the result can carry usage metadata. `schedule` may delay the start, e.g.
+ * behind a session's earlier requests, and pass `start` a `track` callback
+ * that receives the underlying request; timing starts once it runs.
+ */
+export function createTextStream(
+	run: (
+		requestId: string,
+		onChunk: (chunk: TextStreamChunk) => void,
+	) => Promise<NativeTextGenerationResult>,
+	{
+		signal,
+		timeoutMs,
+		request,
+		schedule = (start) => start(),
+	}: {
+		signal?: AbortSignal;
+		timeoutMs?: number;
+		request?: () => GenerationRequestInfo;
+		schedule?: (
+			start: (track?: TrackRequest) => Promise<NativeTextGenerationResult>,
+		) => Promise<NativeTextGenerationResult>;
+	} = {},
+): TextStream {
+	const requestId = createRequestId();
+	const buffered: TextStreamChunk[] = [];
+	let settled = false;
+	let wake: (() => void) | undefined;
+	let timer = startGenerationTimer();
+
+	const notify = () => {
+		const resolve = wake;
+		wake = undefined;
+		resolve?.();
+	};
+
+	const onChunk = (chunk: TextStreamChunk) => {
+		if (settled) return;
+		timer.firstToken();
+		buffered.push(chunk);
+		notify();
+	};
+
+	const result = (async (): Promise<TextGenerationResult> => {
+		try {
+			const response = await schedule((track) => {
+				timer = startGenerationTimer();
+				return runCancellable((id) => run(id, onChunk), {
+					signal,
+					timeoutMs,
+					requestId,
+					track,
+				});
+			});
+			const info = request?.() ?? { prompt: "" };
+			return { ...response, ...generationMetadata(info, response, timer) };
+		} catch (error) {
+			throw toTextGenerationError(error);
+		} finally {
+			settled = true;
+			notify();
+		}
+	})();
+	// Consumers that only iterate still observe failures through the iterator
+	result.catch(() => {});
+
+	return {
+		result,
+		async *[Symbol.asyncIterator]() {
+			while (true) {
+				const chunk = buffered.shift();
+				if (chunk) {
+					yield chunk;
+					continue;
+				}
+				if (settled) break;
+				await new Promise<void>((resolve) => {
+					wake = resolve;
+				});
+			}
+			await result;
+		},
+	};
+}
+
+/**
+ * Stream a single text response. Yields incremental deltas as they are
+ * produced; `result` resolves with the full text and the sessionId used.
+ */
+export function streamText(options: TextGenerationOptions): TextStream {
+	const prompt = options.prompt?.trim();
+	const {
+		instructions,
+		temperature,
+		maxOutputTokens,
+		sessionId,
+		signal,
+		timeoutMs,
+	} = options;
+
+	return createTextStream(
+		async (requestId, onChunk) => {
+			if (!prompt) {
+				throw new TextGenerationError({
+					code: "ERR_TEXT_PROMPT_INVALID",
+					message: "Prompt must be a non-empty string.",
+				});
+			}
+
+			if (options.tools && options.tools.length > 0) {
+				throw new TextGenerationError({
+					code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT",
+					message: "Tools are not supported when streaming; use generateText.",
+				});
+			}
+
+			const provider = await getActiveProvider();
+			return providerStreamText(
+				provider,
+				{
+					prompt,
+					system: instructions?.trim(),
+					temperature,
+					maxOutputTokens,
+					sessionId,
+					requestId,
+				},
+				onChunk,
+			);
+		},
+		{
+			signal,
+			timeoutMs,
+			request: () => ({
+				prompt: prompt ?? "",
+				system: instructions?.trim(),
+				maxOutputTokens,
+			}),
+		},
+	);
+}
@@ -0,0 +1,295 @@
+import type {
+	AppleFoundationModelsModuleEvents,
+	NativeObjectGenerationOptions,
+	NativeObjectGenerationResult,
+	NativeRestoreSessionOptions,
+	NativeRestoreSessionResult,
+	NativeTextGenerationOptions,
+	NativeTextGenerationResult,
+	NativeTextStreamOptions,
+	TextModelAvailability,
+} from "./AppleFoundationModels.types";
+
+type EventName = keyof AppleFoundationModelsModuleEvents;
+type EventPayload<E extends EventName> = Parameters<
+	AppleFoundationModelsModuleEvents[E]
+>[0];
+type Listener = (event: never) => void;
+
+/**
+ * Error the mock rejects with, shaped like the errors the native module
+ * rejects with so it is normalized the same way.
+ */
+export type MockNativeError = {
+	code: string;
+	message: string;
+	nativeCode?: number;
+	nativeDomain?: string;
+};
+
+/**
+ * One scripted reply. `text` is returned as the generated text (or JSON for
+ * `generateObject`); `error` makes the request reject instead. `delayMs`
+ * overrides the module's `latencyMs` for this reply.
+ */
+export type MockResponse =
+	| {
+			text: string;
+			delayMs?: number;
+			promptTokens?: number;
+			completionTokens?: number;
+	  }
+	| { error: MockNativeError; delayMs?: number };
+
+export type MockMethod =
+	| "isTextModelAvailable"
+	| "getTextModelAvailability"
+	| "generateText"
+	| "streamText"
+	| "generateObject"
+	| "restoreSession"
+	| "releaseSession"
+	| "cancelRequest";
+
+export type MockCall = {
+	method: MockMethod;
+	options?: unknown;
+};
+
+/**
+ * Scriptable stand-in for the native module.
+ *
+ * - Replies are taken from a queue filled with `queueResponse()` and
+ *   `queueError()`; when it is empty, `nextResponse` is returned.
+ * - `setAvailability()` simulates any availability state and emits
+ *   `onAvailabilityChange` like the native module.
+ * - `latencyMs` delays every reply; streamed replies arrive one word per chunk.
+ * - Every call is recorded in `calls`, in order.
+ * - `on()` listens to emitted events from a test.
+ * - `reset()` restores the defaults between tests. Subscriptions the library
+ *   made through `addListener` are kept; listeners added with `on()` are not.
+ */
+export type MockNativeModule = ReturnType<typeof createMockNativeModule>;
+
+function wait(ms: number): Promise<void> {
+	if (ms <= 0) return Promise.resolve();
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create an independent mock native module. Most tests can use the shared
+ * `mockNativeModule` returned by `jestMockFactory()` instead.
+ */
+export function createMockNativeModule() {
+	// Subscriptions made by the library, as on the real module
+	const listeners = new Map<EventName, Set<Listener>>();
+	// Listeners added by tests through `on()`, dropped by `reset()`
+	const testListeners = new Map<EventName, Set<Listener>>();
+	const queue: MockResponse[] = [];
+	const canceled = new Set<string>();
+	let availability: TextModelAvailability = { status: "available" };
+	let sessionCounter = 0;
+
+	const nextSessionId = (sessionId: string | undefined) =>
+		sessionId ?? `mock-session-${++sessionCounter}`;
+
+	const subscribe = (
+		registry: Map<EventName, Set<Listener>>,
+		eventName: EventName,
+		listener: Listener,
+	) => {
+		const set = registry.get(eventName) ?? new Set<Listener>();
+		set.add(listener);
+		registry.set(eventName, set);
+		return { remove: () => set.delete(listener) };
+	};
+
+	const record = (method: MockMethod, options?: unknown) => {
+		mock.calls.push({ method, options });
+	};
+
+	// Wait out the reply's latency, then return its text or reject with its error
+	const reply = async (): Promise<Extract<MockResponse, { text: string }>> => {
+		const response = queue.shift() ?? { text: mock.nextResponse };
+		await wait(response.delayMs ?? mock.latencyMs);
+		if ("error" in response) {
+			throw Object.assign(new Error(response.error.message), response.error);
+		}
+		return response;
+	};
+
+	const mock = {
+		/**
+		 * Reply used when the queue is empty.
+		 */
+		nextResponse: "Mock response",
+		/**
+		 * Delay applied to every reply that does not set its own `delayMs`.
+		 */
+		latencyMs: 0,
+		calls: [] as MockCall[],
+
+		queueResponse(response: string | MockResponse): void {
+			queue.push(typeof response === "string" ? { text: response } : response);
+		},
+
+		queueError(error: MockNativeError, delayMs?: number): void {
+			queue.push({ error, delayMs });
+		},
+
+		setAvailability(value: TextModelAvailability): void {
+			availability = value;
+			mock.emit("onAvailabilityChange", value);
+		},
+
+		/**
+		 * Recorded calls to `method`, oldest first.
+		 */
+		callsTo(method: MockMethod): MockCall[] {
+			return mock.calls.filter((call) => call.method === method);
+		},
+
+		reset(): void {
+			queue.length = 0;
+			canceled.clear();
+			testListeners.clear();
+			availability = { status: "available" };
+			sessionCounter = 0;
+			mock.nextResponse = "Mock response";
+			mock.latencyMs = 0;
+			mock.calls = [];
+		},
+
+		/**
+		 * Listen to `eventName` from a test. Removed by `reset()`.
+		 */
+		on<E extends EventName>(
+			eventName: E,
+			listener: AppleFoundationModelsModuleEvents[E],
+		) {
+			return subscribe(testListeners, eventName, listener);
+		},
+
+		addListener<E extends EventName>(
+			eventName: E,
+			listener: AppleFoundationModelsModuleEvents[E],
+		) {
+			return subscribe(listeners, eventName, listener);
+		},
+
+		removeAllListeners(eventName: EventName) {
+			listeners.delete(eventName);
+		},
+
+		emit<E extends EventName>(eventName: E, event: EventPayload<E>) {
+			const targets = [
+				...Array.from(listeners.get(eventName) ?? []),
+				...Array.from(testListeners.get(eventName) ?? []),
+			];
+			for (const listener of targets) {
+				(listener as (payload: EventPayload<E>) => void)(event);
+			}
+		},
+
+		async isTextModelAvailable(): Promise<boolean> {
+			record("isTextModelAvailable");
+			return availability.status === "available";
+		},
+
+		async getTextModelAvailability(): Promise<TextModelAvailability> {
+			record("getTextModelAvailability");
+			return availability;
+		},
+
+		async generateText(
+			options: NativeTextGenerationOptions,
+		): Promise<NativeTextGenerationResult> {
+			record("generateText", options);
+			const { text, promptTokens, completionTokens } = await reply();
+			return {
+				text,
+				sessionId: nextSessionId(options.sessionId),
+				promptTokens,
+				completionTokens,
+			};
+		},
+
+		async streamText(
+			options: NativeTextStreamOptions,
+		): Promise<NativeTextGenerationResult> {
+			record("streamText", options);
+			const { text: full, promptTokens, completionTokens } = await reply();
+			let text = "";
+			for (const delta of full.split(/(?<=\s)/)) {
+				if (canceled.has(options.requestId)) break;
+				text += delta;
+				await Promise.resolve();
+				mock.emit("onTextStreamChunk", {
+					requestId: options.requestId,
+					delta,
+					text,
+				});
+			}
+			return {
+				text,
+				sessionId: nextSessionId(options.sessionId),
+				promptTokens,
+				completionTokens,
+			};
+		},
+
+		async generateObject(
+			options: NativeObjectGenerationOptions,
+		): Promise<NativeObjectGenerationResult> {
+			record("generateObject", options);
+			const { text } = await reply();
+			return { json: text, sessionId: nextSessionId(options.sessionId) };
+		},
+
+		async restoreSession(
+			options: NativeRestoreSessionOptions,
+		): Promise<NativeRestoreSessionResult> {
+			record("restoreSession", options);
+			return { sessionId: nextSessionId(options.sessionId) };
+		},
+
+		async releaseSession(sessionId: string): Promise<void> {
+			record("releaseSession", sessionId);
+		},
+
+		async cancelRequest(requestId: string): Promise<void> {
+			record("cancelRequest", requestId);
+			canceled.add(requestId);
+		},
+	};
+
+	return mock;
+}
+
+/**
+ * Mock shared by `jestMockFactory()` and the library's own `__mocks__`.
+ */
+export const mockNativeModule = createMockNativeModule();
+
+/**
+ * Module factory that replaces the native module with `mockNativeModule`, so
+ * the library loads and runs without a device. Pass it to a module-level
+ * `jest.mock` call, which Jest hoists above every import:
+ *
+ * ```js
+ * // jest.setup.js, listed in `setupFilesAfterEnv`
+ * jest.mock(
+ *   "@ratley/react-native-apple-foundation-models/build/AppleFoundationModelsModule.ios",
+ *   () => require("@ratley/react-native-apple-foundation-models/testing").jestMockFactory(),
+ * );
+ * beforeEach(() => {
+ *   require("@ratley/react-native-apple-foundation-models/testing").mockNativeModule.reset();
+ * });
+ * ```
+ */
+export function jestMockFactory(): {
+	__esModule: true;
+	default: MockNativeModule;
+} {
+	return { __esModule: true, default: mockNativeModule };
+}
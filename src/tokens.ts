@@ -0,0 +1,21 @@
+/**
+ * Context window of Apple's on-device model, in tokens. Instructions, every
+ * turn of the session, the new prompt and the response all share it.
+ */
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Room kept for the response when the request does not set `maxOutputTokens`
+export const DEFAULT_RESPONSE_TOKENS = 512;
+
+/**
+ * Rough token count for `text`, for budgeting the context window.
+ *
+ * The on-device tokenizer is not exposed, so this approximates it from
+ * character and word counts (about 4 characters per token for English),
+ * erring on the high side. Treat it as an estimate, not an exact count.
+ */
+export function estimateTokens(text: string | undefined): number {
+	if (!text) return 0;
+	const words = text.trim().split(/\s+/).filter(Boolean).length;
+	return Math.max(Math.ceil(text.length / 4), Math.ceil(words * 1.3));
+}
@@ -0,0 +1,168 @@
+import type {
+	NativeTextGenerationResult,
+	Tool,
+	ToolCall,
+} from "./AppleFoundationModels.types";
+import { TextGenerationError } from "./errors";
+import { validateAgainstSchema, validateJSONSchema } from "./schema";
+
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const DEFAULT_MAX_TOOL_STEPS = 5;
+
+/**
+ * Define a tool the model can call during `generateText` or `LLMSession.ask`.
+ *
+ * The tool is validated eagerly so mistakes surface at definition time rather
+ * than mid-conversation.
+ *
+ * @throws `TextGenerationError` with `ERR_TEXT_GENERATION_INVALID_ARGUMENT`
+ * when the name or parameter schema is invalid.
+ */
+export function defineTool<Args = unknown>(tool: Tool<Args>): Tool<Args> {
+	if (!TOOL_NAME_PATTERN.test(tool.name ?? "")) {
+		throw new TextGenerationError({
+			code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT",
+			message: `Invalid tool name "${tool.name}". Use letters, digits, "_" or "-".`,
+		});
+	}
+	try {
+		if (tool.parameters?.type !== "object") {
+			throw new Error("Tool parameters must be an object schema.");
+		}
+		validateJSONSchema(tool.parameters);
+	} catch (error) {
+		throw new TextGenerationError({
+			code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT",
+			message: `Invalid parameters schema for tool "${tool.name}".`,
+			cause: error,
+		});
+	}
+	return tool;
+}
+
+/**
+ * Append the tool-calling protocol and the tool catalog to `instructions`.
+ * The result must stay stable across turns so the native session is reused.
+ */
+export function withToolInstructions(
+	instructions: string | undefined,
+	tools: Tool[],
+): string {
+	const catalog = tools
+		.map(
+			(tool) =>
+				`- ${tool.name}: ${tool.description}\n  arguments schema: ${JSON.stringify(tool.parameters)}`,
+		)
+		.join("\n");
+	const guidance = `
+You can call tools to look up information you do not have.
+To call a tool, respond with ONLY a JSON object of the form {"tool": "<name>", "arguments": { ... }} and nothing else.
+You will then receive the tool result and may call another tool or answer.
+When you can answer, respond in plain text without any tool JSON.
+
+Available tools:
+${catalog}
+`;
+	return [instructions?.trim(), guidance.trim()]
+		.filter((v): v is string => typeof v === "string" && v.length > 0)
+		.join("\n\n");
+}
+
+// Recognize a tool call reply: a bare JSON object (optionally fenced) naming a known tool
+function parseToolCall(
+	text: string,
+	tools: Map<string, Tool>,
+): { tool: Tool; arguments: unknown } | undefined {
+	const body = text
+		.trim()
+		.replace(/^```(?:json)?\s*/i, "")
+		.replace(/\s*```$/, "");
+	if (!body.startsWith("{")) return undefined;
+	try {
+		const parsed = JSON.parse(body) as { tool?: unknown; arguments?: unknown };
+		if (typeof parsed.tool !== "string") return undefined;
+		const tool = tools.get(parsed.tool);
+		if (!tool) return undefined;
+		return { tool, arguments: parsed.arguments ?? {} };
+	} catch {
+		return undefined;
+	}
+}
+
+async function executeToolCall(
+	tool: Tool,
+	args: unknown,
+	signal: AbortSignal | undefined,
+): Promise<ToolCall> {
+	const issues = validateAgainstSchema(args, tool.parameters);
+	if (issues.length > 0) {
+		return {
+			name: tool.name,
+			arguments: args,
+			error: `Invalid arguments: ${issues.map((i) => i.message).join("; ")}`,
+		};
+	}
+	try {
+		const result = await tool.execute(args, { signal });
+		return { name: tool.name, arguments: args, result: result ?? null };
+	} catch (error) {
+		return {
+			name: tool.name,
+			arguments: args,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+function toolResultPrompt(call: ToolCall): string {
+	if (call.error != null) {
+		return `Tool "${call.name}" failed: ${call.error}\nFix the arguments and call it again, or answer without it.`;
+	}
+	return `Tool "${call.name}" returned: ${JSON.stringify(call.result)}`;
+}
+
+/**
+ * Drive the tool-calling loop: send the prompt, execute any tool the model
+ * asks for, feed the result back on the same session, and repeat until the
+ * model answers in plain text.
+ *
+ * Invalid arguments and tool failures are reported back to the model rather
+ * than thrown, so it can correct itself within `maxToolSteps`.
+ *
+ * @throws `TextGenerationError` with `ERR_TEXT_GENERATION_RUNTIME` when the
+ * model keeps calling tools after `maxToolSteps` calls.
+ */
+export async function runToolLoop({
+	prompt,
+	tools,
+	maxToolSteps = DEFAULT_MAX_TOOL_STEPS,
+	signal,
+	send,
+}: {
+	prompt: string;
+	tools: Tool[];
+	maxToolSteps?: number;
+	signal?: AbortSignal;
+	send: (prompt: string) => Promise<NativeTextGenerationResult>;
+}): Promise<NativeTextGenerationResult & { toolCalls: ToolCall[] }> {
+	const byName = new Map(tools.map((tool) => [tool.name, tool]));
+	const toolCalls: ToolCall[] = [];
+	let next = prompt;
+
+	while (true) {
+		const response = await send(next);
+		const request = parseToolCall(response.text, byName);
+		if (!request) {
+			return { ...response, toolCalls };
+		}
+		if (toolCalls.length >= maxToolSteps) {
+			throw new TextGenerationError({
+				code: "ERR_TEXT_GENERATION_RUNTIME",
+				message: `Model exceeded the limit of ${maxToolSteps} tool calls.`,
+			});
+		}
+		const call = await executeToolCall(request.tool, request.arguments, signal);
+		toolCalls.push(call);
+		next = toolResultPrompt(call);
+	}
+}
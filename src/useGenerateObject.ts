@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type {
+	InferObjectSchema,
+	ObjectGenerationOptions,
+	ObjectGenerationResult,
+	ObjectSchema,
+} from "./AppleFoundationModels.types";
+import {
+	isTextGenerationError,
+	ObjectGenerationError,
+	type TextGenerationError,
+	toObjectGenerationError,
+} from "./errors";
+import { generateObject } from "./generateObject";
+
+/**
+ * Parameters for the `useGenerateObject` React hook: the `generateObject`
+ * options shared by every submission. The latest values are used, so
+ * `schema` may be declared inline.
+ */
+export type UseGenerateObjectParams<S extends ObjectSchema = ObjectSchema> =
+	Omit<ObjectGenerationOptions<S>, "prompt" | "signal" | "sessionId">;
+
+/**
+ * Lifecycle status of `useGenerateObject`.
+ */
+export type UseGenerateObjectStatus = "idle" | "running" | "success" | "error";
+
+/**
+ * Return shape for the `useGenerateObject` React hook.
+ */
+export type UseGenerateObjectReturn<T> = {
+	/**
+	 * The most recently generated object. Kept while a new submission runs.
+	 */
+	object?: T;
+	/**
+	 * Full result of the most recent successful submission, with `sessionId`,
+	 * `attempts` and generation metadata.
+	 */
+	result?: ObjectGenerationResult<T>;
+	/**
+	 * Lifecycle status: `idle`, `running`, `success`, or `error`.
+	 */
+	status: UseGenerateObjectStatus;
+	/**
+	 * Error of the latest submission. An `ObjectGenerationError` carries the
+	 * raw `output` and the `issues` found when decoding failed; timeouts are a
+	 * `TextGenerationError` with `ERR_TEXT_GENERATION_TIMEOUT`.
+	 */
+	error?: ObjectGenerationError | TextGenerationError;
+	/**
+	 * Generate an object for `prompt`. A submission made while another is
+	 * running cancels it; the earlier response is ignored even if it arrives.
+	 *
+	 * @returns The object, or `undefined` when the submission was superseded
+	 * or canceled.
+	 * @throws The same error exposed in `error`.
+	 */
+	submit: (prompt: string) => Promise<T | undefined>;
+	/**
+	 * Submit the last prompt again.
+	 */
+	retry: () => Promise<T | undefined>;
+	/**
+	 * Cancel the running submission, if any, and return to `idle`.
+	 */
+	cancel: () => void;
+};
+
+/**
+ * React hook around `generateObject` that tracks loading, error and result
+ * state for a form or screen.
+ *
+ * ```tsx
+ * const { submit, object, status, error } = useGenerateObject({
+ *   schema: RecipeSchema,
+ *   instructions: "You write short recipes.",
+ * });
+ * ```
+ *
+ * Only the latest submission updates state, and requests still running when
+ * the component unmounts are canceled.
+ *
+ * @param params Schema and `generateObject` options for every submission.
+ * @returns `UseGenerateObjectReturn` typed from `schema`.
+ */
+export function useGenerateObject<const S extends ObjectSchema>(
+	params: UseGenerateObjectParams<S>,
+): UseGenerateObjectReturn<InferObjectSchema<S>>;
+export function useGenerateObject<T = unknown>(
+	params: UseGenerateObjectParams,
+): UseGenerateObjectReturn<T>;
+export function useGenerateObject<T = unknown>(
+	params: UseGenerateObjectParams,
+): UseGenerateObjectReturn<T> {
+	const [status, setStatus] = useState<UseGenerateObjectStatus>("idle");
+	const [result, setResult] = useState<ObjectGenerationResult<T> | undefined>(
+		undefined,
+	);
+	const [error, setError] = useState<
+		ObjectGenerationError | TextGenerationError | undefined
+	>(undefined);
+
+	const paramsRef = useRef(params);
+	paramsRef.current = params;
+	// Controller of the submission allowed to update state
+	const requestRef = useRef<AbortController | null>(null);
+	const lastPromptRef = useRef<string | undefined>(undefined);
+
+	useEffect(
+		() => () => {
+			const controller = requestRef.current;
+			requestRef.current = null;
+			controller?.abort();
+		},
+		[],
+	);
+
+	const submit = useCallback<UseGenerateObjectReturn<T>["submit"]>(
+		async (prompt) => {
+			requestRef.current?.abort();
+			const controller = new AbortController();
+			requestRef.current = controller;
+			lastPromptRef.current = prompt;
+			setStatus("running");
+			setError(undefined);
+			try {
+				const next = await generateObject<T>({
+					...paramsRef.current,
+					prompt,
+					signal: controller.signal,
+				});
+				if (requestRef.current !== controller) return undefined;
+				requestRef.current = null;
+				setResult(next);
+				setStatus("success");
+				return next.object;
+			} catch (e) {
+				// Superseded, canceled or unmounted: nothing to report
+				if (requestRef.current !== controller) return undefined;
+				requestRef.current = null;
+				const err = isTextGenerationError(e) ? e : toObjectGenerationError(e);
+				setError(err);
+				setStatus("error");
+				throw err;
+			}
+		},
+		[],
+	);
+
+	const retry = useCallback(async () => {
+		const prompt = lastPromptRef.current;
+		if (prompt === undefined) {
+			throw new ObjectGenerationError({
+				code: "ERR_OBJECT_PROMPT_INVALID",
+				message: "No previous prompt to retry.",
+			});
+		}
+		return submit(prompt);
+	}, [submit]);
+
+	const cancel = useCallback(() => {
+		const controller = requestRef.current;
+		if (!controller) return;
+		requestRef.current = null;
+		controller.abort();
+		setStatus("idle");
+	}, []);
+
+	return {
+		object: result?.object,
+		result,
+		status,
+		error,
+		submit,
+		retry,
+		cancel,
+	};
+}
+
+export default useGenerateObject;
@@ -1,7 +1,36 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import { toTextGenerationError } from "./errors";
-import { isTextModelAvailable } from "./index";
+
+import type {
+	ChatBranch,
+	ChatMessage,
+	GenerationMetadata,
+	LLMSessionTranscript,
+	SessionConcurrency,
+} from "./AppleFoundationModels.types";
 import { LLMSession } from "./LLMSession";
+import { addAvailabilityListener } from "./availability";
+import {
+	activePath,
+	addMessage,
+	addReply,
+	branchesOf,
+	type ChatTree,
+	createMessageId,
+	emptyTree,
+	isChatTree,
+	parentOf,
+	pathTo,
+	ROOT,
+	removeMessage,
+	selectMessage,
+	toTurn,
+	treeFromTurns,
+} from "./chatTree";
+import { toTextGenerationError } from "./errors";
+import { getActiveProvider } from "./provider";
+import type { StorageAdapter } from "./storage";
+
+const DEFAULT_PERSIST_DEBOUNCE_MS = 300;
 
 /**
  * Parameters for the `useLLMSession` React hook.
@@ -9,13 +38,42 @@ import { LLMSession } from "./LLMSession";
  * - `instructions`: Optional system prompt to steer generations.
  * - `initialId`: Provide to resume an existing session by id.
  * - `autoCreate`: Lazily create a session on mount if supported. Defaults to `true`.
+ * - `timeoutMs`: Default time limit for each request; `ask()` options can override it.
+ * - `storage`: Persist the conversation, including branches that are not
+ *   shown, and `sessionId` through this adapter. They are
+ *   hydrated on mount (rebuilding the native context) and written back after
+ *   changes settle for `persistDebounceMs` (default 300). The adapter may be
+ *   created inline; hydration runs again only when `storageKey` changes.
+ * - `storageKey`: Key to persist under. Defaults to one derived from `initialId`.
+ *   Changing it switches to the conversation saved under the new key.
+ * - `concurrency`: What an `ask()` made while another is in flight does; see
+ *   `SessionConcurrency`. Defaults to `"queue"`.
+ * - `stream`: Stream responses into `partial` by default; `ask()` options can
+ *   override it. Defaults to `false`.
  */
 export type UseLLMSessionParams = {
 	instructions?: string;
 	initialId?: string;
 	autoCreate?: boolean;
+	timeoutMs?: number;
+	storage?: StorageAdapter;
+	storageKey?: string;
+	persistDebounceMs?: number;
+	concurrency?: SessionConcurrency;
+	stream?: boolean;
 };
 
+/**
+ * Lifecycle status of `useLLMSession`. `streaming` means response text is
+ * arriving in `partial`.
+ */
+export type UseLLMSessionStatus =
+	| "idle"
+	| "running"
+	| "streaming"
+	| "error"
+	| "unsupported";
+
 /**
  * Return shape for the `useLLMSession` React hook.
  */
@@ -25,44 +83,102 @@ export type UseLLMSessionReturn = {
 	 */
 	sessionId?: string;
 	/**
-	 * Whether the platform supports local text generation.
+	 * Whether text generation is available, on device or through a registered
+	 * fallback provider.
 	 */
 	isAvailable: boolean;
 	/**
-	 * Lifecycle status of the hook: `idle`, `running`, `error`, or `unsupported`.
+	 * Lifecycle status of the hook: `idle`, `running`, `streaming`, `error`, or
+	 * `unsupported`.
+	 */
+	status: UseLLMSessionStatus;
+	/**
+	 * Text of the response being streamed, until it is added to `history`.
+	 */
+	partial?: string;
+	/**
+	 * Number of `ask()` calls waiting for the running one to finish.
 	 */
-	status: "idle" | "running" | "error" | "unsupported";
+	queueDepth: number;
 	/**
 	 * Normalized error, when present.
 	 */
 	error?: { code: string; message: string };
 	/**
-	 * In-memory chat history for the current session.
+	 * Chat history for the current session: the shown branch of the
+	 * conversation, persisted when `storage` is set. Assistant entries carry
+	 * the `metadata` of the request that produced them.
 	 */
-	history: Array<{ role: "user" | "assistant"; content: string }>;
+	history: ChatMessage[];
+	/**
+	 * Alternatives for every message in `history`, keyed by message id.
+	 * Editing a prompt or regenerating an answer adds one; show another with
+	 * `switchBranch()`.
+	 */
+	branches: Record<string, ChatBranch>;
+	/**
+	 * Usage, timing and finish reason of the latest request, including a
+	 * failed or canceled one.
+	 */
+	lastMetadata?: GenerationMetadata;
 	/**
 	 * Send a prompt to the model and append the response to `history`.
 	 *
+	 * In-flight requests are canceled when the component unmounts. Calls made
+	 * while another is running are handled per `concurrency`; a call that
+	 * fails with `ERR_TEXT_GENERATION_BUSY` is removed from `history` and does
+	 * not set `error`.
+	 *
+	 * With `stream`, the response text is exposed in `partial` as it arrives
+	 * and `status` is `streaming`.
+	 *
 	 * @param prompt User message to generate from.
-	 * @param options Optional generation controls.
-	 * @returns The generated text.
+	 * @param options Optional generation controls, `stream`, and an abort `signal`.
+	 * @returns The generated text, or the text produced before `stop()`.
 	 * @throws Normalized error if unsupported or native call fails.
 	 * @see https://developer.apple.com/documentation/foundationmodels/languagemodelsession
 	 */
-	ask: (
-		prompt: string,
-		options?: { temperature?: number; maxOutputTokens?: number },
+	ask: (prompt: string, options?: AskOptions) => Promise<string>;
+	/**
+	 * Cancel the running request and any queued ones. Text already streamed is
+	 * kept in `history` as the reply, and in the context of later requests,
+	 * and the stopped `ask()` resolves with it instead of failing. Prompts stopped before any text arrived are removed
+	 * from `history` and resolve with an empty string.
+	 */
+	stop: () => void;
+	/**
+	 * Send an edited version of the user message `messageId`. The edit becomes
+	 * a new branch beside the original, and the conversation continues from
+	 * it; the original and everything after it stay in `branches`. `options`
+	 * default to the ones the original was sent with. Fails with
+	 * `ERR_TEXT_GENERATION_BUSY` while another request is in flight.
+	 */
+	editMessage: (
+		messageId: string,
+		content: string,
+		options?: AskOptions,
 	) => Promise<string>;
 	/**
-	 * Re-run the last prompt, if any, and append the new response.
+	 * Generate another answer to a prompt, as a new branch beside the existing
+	 * answer. `messageId` is the answer to replace or the prompt to answer
+	 * again; defaults to the last message in `history`, so it also retries a
+	 * prompt that failed. Fails with `ERR_TEXT_GENERATION_BUSY` while another
+	 * request is in flight.
+	 */
+	regenerate: (messageId?: string) => Promise<string>;
+	/**
+	 * Show the branch containing `messageId`, for example an id from
+	 * `branches`. The native context is rebuilt from the shown branch before
+	 * the next request.
 	 */
-	regenerate: () => Promise<string>;
+	switchBranch: (messageId: string) => void;
 	/**
 	 * Update the system instructions for subsequent generations.
 	 */
 	setInstructions: (value?: string) => void;
 	/**
-	 * Reset session state and optionally apply new instructions.
+	 * Clear the conversation, keeping the session, and optionally apply new
+	 * instructions. The next request starts without the earlier turns.
 	 */
 	reset: (value?: { instructions?: string }) => void;
 	/**
@@ -72,6 +188,31 @@ export type UseLLMSessionReturn = {
 	destroy: () => void;
 };
 
+type AskOptions = {
+	temperature?: number;
+	maxOutputTokens?: number;
+	signal?: AbortSignal;
+	timeoutMs?: number;
+	stream?: boolean;
+};
+
+// Abort when either signal aborts
+function linkSignals(
+	primary: AbortSignal,
+	secondary: AbortSignal | undefined,
+): AbortSignal {
+	if (!secondary) return primary;
+	const controller = new AbortController();
+	const abort = () => controller.abort();
+	if (primary.aborted || secondary.aborted) {
+		abort();
+	} else {
+		primary.addEventListener("abort", abort, { once: true });
+		secondary.addEventListener("abort", abort, { once: true });
+	}
+	return controller.signal;
+}
+
 /**
  * React hook that manages a local language model session, providing
  * availability detection, lifecycle state, in-memory history, and convenient
@@ -79,9 +220,13 @@ export type UseLLMSessionReturn = {
  * `LanguageModelSession`, but adapted for React usage and this module's
  * surface area.
  *
- * The hook performs a support check on mount via `isTextModelAvailable()`. If
- * supported and `autoCreate` is true, a session is created lazily so callers
- * can immediately call `ask()`.
+ * The hook performs a support check on mount against the active provider, so
+ * a fallback registered with `registerFallbackProvider()` counts. It checks
+ * again whenever the on-device model's availability changes, so `unsupported`
+ * turns into `idle` once a downloading model is ready. If supported and
+ * `autoCreate` is true, a session is created lazily so callers can
+ * immediately call `ask()`. With `storage`, the saved history is loaded
+ * first and the session continues from it.
  *
  * @param params Optional configuration for initial instructions, an initial
  * session id, and automatic creation behavior.
@@ -92,66 +237,203 @@ export function useLLMSession({
 	instructions,
 	initialId,
 	autoCreate = true,
+	timeoutMs,
+	storage,
+	storageKey,
+	persistDebounceMs = DEFAULT_PERSIST_DEBOUNCE_MS,
+	concurrency,
+	stream = false,
 }: UseLLMSessionParams = {}): UseLLMSessionReturn {
 	const [isAvailable, setIsAvailable] = useState<boolean>(true);
-	const [status, setStatus] = useState<
-		"idle" | "running" | "error" | "unsupported"
-	>("idle");
+	const [status, setStatus] = useState<UseLLMSessionStatus>("idle");
+	const [partial, setPartial] = useState<string | undefined>(undefined);
 	const [error, setError] = useState<
 		{ code: string; message: string } | undefined
 	>(undefined);
-	const [history, setHistory] = useState<
-		Array<{ role: "user" | "assistant"; content: string }>
-	>([]);
+	const [tree, setTree] = useState<ChatTree>(emptyTree);
+	const [inFlight, setInFlight] = useState(0);
+	const [lastMetadata, setLastMetadata] = useState<
+		GenerationMetadata | undefined
+	>(undefined);
 
 	const sessionRef = useRef<LLMSession | null>(null);
-	const lastPromptRef = useRef<string | undefined>(undefined);
+	const treeRef = useRef(emptyTree);
+	// Last message the session's turns will end with once in-flight calls
+	// finish; prompts that branch off anywhere else rebuild its context first
+	const tailRef = useRef(ROOT);
+	// Calls started through `ask()` that have not settled yet
+	const inFlightRef = useRef(0);
+	// Aborted by `stop()`, one per unsettled call
+	const stopControllersRef = useRef(new Set<AbortController>());
+	const unmountControllerRef = useRef(new AbortController());
+	// Resolves once saved history has been loaded; nothing is written before that
+	const hydrationRef = useRef<Promise<void>>(Promise.resolve());
+	const hydratedRef = useRef(!storage);
+	const pendingWriteRef = useRef<(() => void) | null>(null);
+	// Latest options for hydration, which runs once per storage location
+	const sessionOptionsRef = useRef({ instructions, timeoutMs, concurrency });
+	sessionOptionsRef.current = { instructions, timeoutMs, concurrency };
+	// Latest adapter, so one created inline does not rerun hydration each render
+	const storageRef = useRef(storage);
+	storageRef.current = storage;
+	const hasStorage = !!storage;
+
+	useEffect(() => {
+		const controller = new AbortController();
+		unmountControllerRef.current = controller;
+		return () => controller.abort();
+	}, []);
 
 	const effectiveInitialId = initialId;
+	const key =
+		storageKey ??
+		`apple-foundation-models/session/${effectiveInitialId ?? "default"}`;
+
+	useEffect(() => {
+		if (!hasStorage) return;
+		let mounted = true;
+		// A new location starts from its own saved conversation, or an empty
+		// one; save the previous one first so it is not written under this key
+		pendingWriteRef.current?.();
+		sessionRef.current?.destroy();
+		sessionRef.current = null;
+		treeRef.current = emptyTree;
+		tailRef.current = ROOT;
+		setTree(emptyTree);
+		setLastMetadata(undefined);
+		hydratedRef.current = false;
+		hydrationRef.current = (async () => {
+			try {
+				const raw = await storageRef.current?.getItem(key);
+				if (!mounted || raw == null) return;
+				const saved = JSON.parse(raw) as LLMSessionTranscript & {
+					tree?: ChatTree;
+				};
+				const { instructions, timeoutMs, concurrency } =
+					sessionOptionsRef.current;
+				const savedTree = isChatTree(saved.tree)
+					? saved.tree
+					: treeFromTurns(saved.turns);
+				const path = activePath(savedTree);
+				const session = await LLMSession.fromTranscript(
+					{ ...saved, turns: path.map(toTurn) },
+					{ timeoutMs, concurrency },
+				);
+				if (!mounted) return;
+				if (instructions !== undefined) {
+					session.reset({ instructions });
+				}
+				sessionRef.current = session;
+				treeRef.current = savedTree;
+				tailRef.current = path[path.length - 1]?.id ?? ROOT;
+				setTree(savedTree);
+			} catch {
+				// Unreadable or outdated data starts a fresh conversation
+			} finally {
+				if (mounted) hydratedRef.current = true;
+			}
+		})();
+		return () => {
+			mounted = false;
+		};
+	}, [hasStorage, key]);
 
 	useEffect(() => {
 		let mounted = true;
-		(async () => {
+		const check = async () => {
 			try {
-				const available = await isTextModelAvailable();
+				const provider = await getActiveProvider();
+				const available =
+					(await provider.getAvailability()).status === "available";
 				if (!mounted) return;
 				setIsAvailable(!!available);
 				if (!available) {
 					setStatus("unsupported");
 					return;
 				}
+				setStatus((value) => (value === "unsupported" ? "idle" : value));
+				await hydrationRef.current;
+				if (!mounted) return;
 				if (autoCreate && !sessionRef.current) {
 					sessionRef.current = await LLMSession.create({
 						instructions,
 						sessionId: effectiveInitialId,
+						timeoutMs,
+						concurrency,
 					});
 				}
-			} catch (_error) {
+			} catch {
 				if (!mounted) return;
 				setIsAvailable(false);
 				setStatus("unsupported");
 			}
-		})();
+		};
+		check();
+		// Recheck when the model becomes ready, e.g. after it finishes downloading
+		const subscription = addAvailabilityListener(() => {
+			check();
+		});
 		return () => {
 			mounted = false;
+			subscription.remove();
 		};
-	}, [autoCreate, instructions, effectiveInitialId]);
+	}, [autoCreate, instructions, effectiveInitialId, timeoutMs, concurrency]);
 
 	const sessionId = sessionRef.current?.sessionId;
+	const history = activePath(tree);
 
-	// no persistence
+	// Debounced write-back of the conversation; an empty one clears the saved entry
+	useEffect(() => {
+		if (!hasStorage || !hydratedRef.current) return;
+		const write = () => {
+			const storage = storageRef.current;
+			pendingWriteRef.current = null;
+			if (!storage) return;
+			const session = sessionRef.current;
+			const turns = activePath(tree).map(toTurn);
+			const saved =
+				session && turns.length > 0
+					? storage.setItem(
+							key,
+							JSON.stringify({ ...session.exportTranscript(), turns, tree }),
+						)
+					: storage.removeItem(key);
+			saved.catch(() => {});
+		};
+		pendingWriteRef.current = write;
+		const timer = setTimeout(write, persistDebounceMs);
+		return () => clearTimeout(timer);
+	}, [tree, hasStorage, key, persistDebounceMs]);
+
+	const updateTree = useCallback((update: (tree: ChatTree) => ChatTree) => {
+		treeRef.current = update(treeRef.current);
+		setTree(treeRef.current);
+	}, []);
+
+	// Flush a pending write on unmount so the last turn is not lost
+	useEffect(() => () => pendingWriteRef.current?.(), []);
 
 	const ensureSession = useCallback(async () => {
+		await hydrationRef.current;
 		if (sessionRef.current) return sessionRef.current;
 		sessionRef.current = await LLMSession.create({
 			instructions,
 			sessionId: effectiveInitialId,
+			timeoutMs,
+			concurrency,
 		});
 		return sessionRef.current;
-	}, [instructions, effectiveInitialId]);
+	}, [instructions, effectiveInitialId, timeoutMs, concurrency]);
 
-	const ask = useCallback<UseLLMSessionReturn["ask"]>(
-		async (prompt, options) => {
+	// Answer `prompt` as a child of `parentId`, the end of `history` when
+	// omitted. With `promptId`, answer that existing prompt again instead of
+	// adding a new one.
+	const generate = useCallback(
+		async (
+			prompt: string,
+			options: AskOptions | undefined,
+			branch: { parentId?: string; promptId?: string } = {},
+		): Promise<string> => {
 			if (!isAvailable) {
 				throw toTextGenerationError({
 					code: "ERR_TEXT_GENERATION_UNSUPPORTED",
@@ -159,66 +441,235 @@ export function useLLMSession({
 				});
 			}
 			const session = await ensureSession();
+			const parentId =
+				branch.parentId ?? activePath(treeRef.current).slice(-1)[0]?.id ?? ROOT;
+			if (parentId !== tailRef.current) {
+				// The session only knows its own turns, so give it this branch's
+				if (inFlightRef.current > 0) {
+					throw toTextGenerationError({
+						code: "ERR_TEXT_GENERATION_BUSY",
+						message: "Wait for the running request to finish before branching.",
+					});
+				}
+				session.setTurns(pathTo(treeRef.current, parentId).map(toTurn));
+			}
+			const settle = () => {
+				inFlightRef.current -= 1;
+				setInFlight(inFlightRef.current);
+				return inFlightRef.current > 0 ? "running" : "idle";
+			};
+			inFlightRef.current += 1;
+			setInFlight(inFlightRef.current);
 			setStatus("running");
 			setError(undefined);
+			const promptId = branch.promptId ?? createMessageId();
+			const userTurn: ChatMessage | undefined = branch.promptId
+				? undefined
+				: {
+						id: promptId,
+						role: "user",
+						content: prompt,
+						timestamp: new Date().toISOString(),
+						options:
+							options?.temperature != null || options?.maxOutputTokens != null
+								? {
+										temperature: options.temperature,
+										maxOutputTokens: options.maxOutputTokens,
+									}
+								: undefined,
+					};
+			const stopController = new AbortController();
+			stopControllersRef.current.add(stopController);
+			const signal = linkSignals(
+				unmountControllerRef.current.signal,
+				linkSignals(stopController.signal, options?.signal),
+			);
+			// Keep the reply right after its prompt; queued prompts may follow it
+			const reply = (text: string): ChatMessage => {
+				const message: ChatMessage = {
+					id: createMessageId(),
+					role: "assistant",
+					content: text,
+					timestamp: new Date().toISOString(),
+					metadata: session.lastMetadata,
+				};
+				updateTree((tree) => addReply(tree, promptId, message));
+				if (tailRef.current === promptId) tailRef.current = message.id;
+				setPartial(undefined);
+				setLastMetadata(session.lastMetadata);
+				return message;
+			};
+			// Forget a prompt that never became part of the conversation
+			const discard = () => {
+				if (tailRef.current === promptId) tailRef.current = parentId;
+				if (userTurn) {
+					updateTree((tree) => removeMessage(tree, userTurn.id));
+				}
+			};
+			let produced = "";
 			try {
-				lastPromptRef.current = prompt;
-				setHistory((h) => h.concat([{ role: "user", content: prompt }]));
-				const text = await session.ask({
+				tailRef.current = promptId;
+				if (userTurn) {
+					updateTree((tree) => addMessage(tree, parentId, userTurn));
+				}
+				const params = {
 					prompt,
 					temperature: options?.temperature,
 					maxOutputTokens: options?.maxOutputTokens,
-				});
-				setHistory((h) => h.concat([{ role: "assistant", content: text }]));
-				setStatus("idle");
+					timeoutMs: options?.timeoutMs,
+					signal,
+				};
+				let text: string;
+				if (options?.stream ?? stream) {
+					const response = session.streamAsk(params);
+					for await (const chunk of response) {
+						produced = chunk.text;
+						setPartial(produced);
+						setStatus("streaming");
+					}
+					text = (await response.result).text;
+				} else {
+					text = await session.ask(params);
+				}
+				reply(text);
+				setStatus(settle());
 				return text;
 			} catch (e) {
 				const err = toTextGenerationError(e);
+				const next = settle();
+				if (unmountControllerRef.current.signal.aborted) throw err;
+				if (stopController.signal.aborted) {
+					// Stopped on purpose: keep whatever was produced, or drop the
+					// prompt when there is no reply to pair it with
+					if (produced) {
+						const message = reply(produced);
+						// The session records nothing for a stopped request; give it
+						// the kept exchange so the next request continues from it
+						session.setTurns(pathTo(treeRef.current, message.id).map(toTurn));
+					} else {
+						discard();
+						setPartial(undefined);
+						setLastMetadata(session.lastMetadata);
+					}
+					setStatus(next);
+					return produced;
+				}
+				setPartial(undefined);
+				if (err.code === "ERR_TEXT_GENERATION_BUSY") {
+					// Never sent, so it is not part of the conversation
+					discard();
+					setStatus(next);
+					throw err;
+				}
+				setLastMetadata(session.lastMetadata);
 				setError({ code: err.code, message: err.message });
 				setStatus("error");
 				throw err;
+			} finally {
+				stopControllersRef.current.delete(stopController);
 			}
 		},
-		[ensureSession, isAvailable],
+		[ensureSession, isAvailable, stream, updateTree],
 	);
 
-	const regenerate = useCallback(async () => {
-		const last = lastPromptRef.current?.trim();
-		if (!last) {
-			throw toTextGenerationError({
-				code: "ERR_TEXT_PROMPT_INVALID",
-				message: "No previous prompt to regenerate.",
+	const ask = useCallback<UseLLMSessionReturn["ask"]>(
+		(prompt, options) => generate(prompt, options),
+		[generate],
+	);
+
+	const editMessage = useCallback<UseLLMSessionReturn["editMessage"]>(
+		async (messageId, content, options) => {
+			const node = treeRef.current.nodes[messageId];
+			if (node?.message.role !== "user") {
+				throw toTextGenerationError({
+					code: "ERR_TEXT_GENERATION_INVALID_ARGUMENT",
+					message: `No user message with id ${messageId}.`,
+				});
+			}
+			return generate(content, options ?? node.message.options, {
+				parentId: node.parentId,
 			});
+		},
+		[generate],
+	);
+
+	const stop = useCallback(() => {
+		for (const controller of Array.from(stopControllersRef.current)) {
+			controller.abort();
 		}
-		return ask(last);
-	}, [ask]);
+	}, []);
+
+	const regenerate = useCallback<UseLLMSessionReturn["regenerate"]>(
+		async (messageId) => {
+			const tree = treeRef.current;
+			const target = messageId
+				? tree.nodes[messageId]?.message
+				: activePath(tree).slice(-1)[0];
+			const prompt =
+				target?.role === "assistant"
+					? tree.nodes[parentOf(tree, target.id)]?.message
+					: target;
+			if (prompt?.role !== "user") {
+				throw toTextGenerationError({
+					code: "ERR_TEXT_PROMPT_INVALID",
+					message: "No previous prompt to regenerate.",
+				});
+			}
+			return generate(prompt.content, prompt.options, {
+				parentId: parentOf(tree, prompt.id),
+				promptId: prompt.id,
+			});
+		},
+		[generate],
+	);
+
+	const switchBranch = useCallback<UseLLMSessionReturn["switchBranch"]>(
+		(messageId) => {
+			updateTree((tree) => selectMessage(tree, messageId));
+		},
+		[updateTree],
+	);
 
 	const setInstructions = useCallback((value?: string) => {
 		if (!sessionRef.current) return;
 		sessionRef.current.reset({ instructions: value });
 	}, []);
 
-	const reset = useCallback((value?: { instructions?: string }) => {
-		if (!sessionRef.current) return;
-		sessionRef.current.reset({ instructions: value?.instructions });
-		setHistory([]);
-	}, []);
+	const reset = useCallback(
+		(value?: { instructions?: string }) => {
+			if (!sessionRef.current) return;
+			sessionRef.current.reset({ instructions: value?.instructions });
+			sessionRef.current.setTurns([]);
+			tailRef.current = ROOT;
+			updateTree(() => emptyTree);
+		},
+		[updateTree],
+	);
 
 	const destroy = useCallback(() => {
 		if (!sessionRef.current) return;
 		sessionRef.current.destroy();
 		sessionRef.current = null;
-		setHistory([]);
-	}, []);
+		tailRef.current = ROOT;
+		updateTree(() => emptyTree);
+		setLastMetadata(undefined);
+	}, [updateTree]);
 
 	return {
 		sessionId,
 		isAvailable,
 		status,
+		partial,
+		queueDepth: Math.max(0, inFlight - 1),
 		error,
 		history,
+		branches: branchesOf(tree, history),
+		lastMetadata,
 		ask,
+		stop,
+		editMessage,
 		regenerate,
+		switchBranch,
 		setInstructions,
 		reset,
 		destroy,
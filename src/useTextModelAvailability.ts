@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+
+import type { TextModelAvailability } from "./AppleFoundationModels.types";
+import { addAvailabilityListener } from "./availability";
+import { appleProvider } from "./provider";
+
+/**
+ * React hook that reports the on-device model's availability, including the
+ * `reasonCode` when it is unavailable, and re-renders when it changes (for
+ * example when a `modelNotReady` model finishes downloading).
+ *
+ * @returns `undefined` until the first check completes, then the current
+ * `TextModelAvailability`.
+ * @see https://developer.apple.com/documentation/foundationmodels/systemlanguagemodel/availability-swift.property
+ */
+export function useTextModelAvailability(): TextModelAvailability | undefined {
+	const [availability, setAvailability] = useState<
+		TextModelAvailability | undefined
+	>(undefined);
+
+	useEffect(() => {
+		let mounted = true;
+		const subscription = addAvailabilityListener((value) => {
+			if (mounted) setAvailability(value);
+		});
+		appleProvider.getAvailability().then(
+			(value) => {
+				if (mounted) setAvailability((previous) => previous ?? value);
+			},
+			() => {
+				if (mounted) {
+					setAvailability(
+						(previous) =>
+							previous ?? { status: "unavailable", reasonCode: "unknown" },
+					);
+				}
+			},
+		);
+		return () => {
+			mounted = false;
+			subscription.remove();
+		};
+	}, []);
+
+	return availability;
+}
+
+export default useTextModelAvailability;